@@ -0,0 +1,162 @@
+import {describe, it, expect} from 'vitest';
+import {
+  divisorCount,
+  divisorSigma,
+  divisors,
+  isRough,
+  isSmooth,
+  largestPrimeFactor,
+  mobius,
+  radical,
+  smallestPrimeFactor,
+  totient,
+} from '../arithmetic.js';
+
+describe('Divisors', () => {
+  it('lists the divisors of 12', () => {
+    expect(divisors(12)).toEqual([1, 2, 3, 4, 6, 12]);
+  });
+
+  it('lists the divisors of 1', () => {
+    expect(divisors(1)).toEqual([1]);
+  });
+
+  it('lists the divisors of a BigInt', () => {
+    expect(divisors(36n)).toEqual([1n, 2n, 3n, 4n, 6n, 9n, 12n, 18n, 36n]);
+  });
+
+  it('agrees with trial division', () => {
+    for (let n = 1; n < 200; ++n) {
+      const expected: number[] = [];
+      for (let d = 1; d <= n; ++d) {
+        if (n % d === 0) {
+          expected.push(d);
+        }
+      }
+      expect(divisors(n)).toEqual(expected);
+      expect(divisorCount(n)).toBe(expected.length);
+      expect(divisorSigma(n)).toBe(expected.reduce((a, b) => a + b));
+    }
+  });
+
+  it('rejects non-positive arguments', () => {
+    expect(() => divisors(0)).toThrow('Argument must be a positive integer');
+    expect(() => divisors(-3n)).toThrow();
+    expect(() => divisors(1.5)).toThrow();
+  });
+});
+
+describe('Divisor functions', () => {
+  it('counts the divisors of 720720', () => {
+    expect(divisorCount(720720)).toBe(240);
+    expect(divisorCount(720720n)).toBe(240);
+  });
+
+  it('calculates σ_0, σ_1 and σ_2 of 12', () => {
+    expect(divisorSigma(12, 0)).toBe(6);
+    expect(divisorSigma(12)).toBe(28);
+    expect(divisorSigma(12, 2)).toBe(210);
+  });
+
+  it('calculates σ of a BigInt exactly', () => {
+    expect(divisorSigma(2n ** 60n)).toBe(2n ** 61n - 1n);
+  });
+
+  it('rejects negative powers', () => {
+    expect(() => divisorSigma(12, -1)).toThrow(
+      'Power must be a non-negative integer',
+    );
+  });
+});
+
+describe("Euler's totient function", () => {
+  it('agrees with counting coprimes', () => {
+    const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+    for (let n = 1; n < 100; ++n) {
+      let count = 0;
+      for (let k = 1; k <= n; ++k) {
+        if (gcd(n, k) === 1) {
+          count++;
+        }
+      }
+      expect(totient(n)).toBe(count);
+    }
+  });
+
+  it('works with BigInts', () => {
+    expect(totient(1000000007n * 998244353n)).toBe(1000000006n * 998244352n);
+  });
+});
+
+describe('Möbius function', () => {
+  it.each([
+    [1, 1],
+    [2, -1],
+    [4, 0],
+    [6, 1],
+    [12, 0],
+    [30, -1],
+    [210, 1],
+  ])('μ(%s) = %s', (n, value) => {
+    expect(mobius(n)).toBe(value);
+    expect(mobius(BigInt(n))).toBe(value);
+  });
+});
+
+describe('Radical', () => {
+  it('multiplies the distinct prime factors', () => {
+    expect(radical(72)).toBe(6);
+    expect(radical(1)).toBe(1);
+    expect(radical(2n ** 100n * 3n ** 50n)).toBe(6n);
+  });
+});
+
+describe('Prime factor extremes', () => {
+  it('finds the smallest and largest prime factors', () => {
+    expect(smallestPrimeFactor(1001)).toBe(7);
+    expect(largestPrimeFactor(1001)).toBe(13);
+    expect(smallestPrimeFactor(1)).toBe(1);
+    expect(largestPrimeFactor(1)).toBe(1);
+  });
+
+  it('works with BigInts', () => {
+    expect(largestPrimeFactor(3n * 1000000007n)).toBe(1000000007n);
+    expect(smallestPrimeFactor(3n * 1000000007n)).toBe(3n);
+  });
+
+  it('finds prime factors beyond the safe integer range', () => {
+    const mersenne = 2n ** 61n - 1n;
+    expect(largestPrimeFactor(6n * mersenne)).toBe(mersenne);
+    expect(radical(72n * mersenne)).toBe(6n * mersenne);
+    expect(totient(mersenne)).toBe(mersenne - 1n);
+    expect(divisors(3n * mersenne)).toEqual([1n, 3n, mersenne, 3n * mersenne]);
+    expect(mobius(30n * mersenne)).toBe(1);
+  });
+});
+
+describe('Smooth and rough numbers', () => {
+  it('detects smooth numbers', () => {
+    expect(isSmooth(360, 5)).toBe(true);
+    expect(isSmooth(14, 5)).toBe(false);
+    expect(isSmooth(1, 2)).toBe(true);
+    expect(isSmooth(2n ** 80n * 3n, 3)).toBe(true);
+  });
+
+  it('detects rough numbers', () => {
+    expect(isRough(77, 7)).toBe(true);
+    expect(isRough(35, 7)).toBe(false);
+    expect(isRough(1, 11)).toBe(true);
+    expect(isRough(1000000007n, 1000)).toBe(true);
+    expect(isRough(5, 7)).toBe(false);
+  });
+
+  it('works without factoring large prime factors', () => {
+    const mersenne = 2n ** 61n - 1n;
+    const semiprime = (2n ** 89n - 1n) * (2n ** 107n - 1n);
+    expect(isSmooth(mersenne, 7)).toBe(false);
+    expect(isSmooth(semiprime * 30n, 7)).toBe(false);
+    expect(isSmooth(6n * mersenne, 2 ** 62)).toBe(true);
+    expect(isRough(semiprime, 7)).toBe(true);
+    expect(isRough(semiprime * 5n, 7)).toBe(false);
+  });
+});
@@ -2,6 +2,7 @@ import {describe, expect, it} from 'vitest';
 import {
   det,
   eye,
+  finckePohst,
   fractionalDet,
   fractionalEye,
   fractionalGram,
@@ -172,7 +173,7 @@ describe('LLL basis reduction', () => {
     for (let i = 0; i < 3; ++i) {
       for (let j = 0; j < i; ++j) {
         expect(
-          Math.abs(dot(lll.basis[i], lll.gram.dual[j]))
+          Math.abs(dot(lll.basis[i], lll.gram.dual[j])),
         ).toBeLessThanOrEqual(0.5);
       }
     }
@@ -247,7 +248,7 @@ describe('LLL basis reduction', () => {
         for (let i = 0; i < basis.length; ++i) {
           for (let j = 0; j < i; ++j) {
             expect(
-              Math.abs(dot(lll.basis[i], lll.gram.dual[j]))
+              Math.abs(dot(lll.basis[i], lll.gram.dual[j])),
             ).toBeLessThanOrEqual(0.5);
           }
         }
@@ -264,6 +265,58 @@ describe('LLL basis reduction', () => {
   });
 });
 
+describe('Fincke-Pohst enumeration', () => {
+  it('visits the points of a skewed square lattice within a radius', () => {
+    const points: string[] = [];
+    finckePohst(
+      [
+        [1, 0],
+        [3, 1],
+      ],
+      2,
+      c => points.push(`${c[0] + 3 * c[1]},${c[1]}`),
+    );
+    expect(points.sort()).toEqual(
+      [
+        '-1,-1',
+        '-1,0',
+        '-1,1',
+        '0,-1',
+        '0,0',
+        '0,1',
+        '1,-1',
+        '1,0',
+        '1,1',
+      ].sort(),
+    );
+  });
+
+  it('visits one of each pair of opposite points', () => {
+    const points: number[][] = [];
+    finckePohst(
+      [
+        [2, 0],
+        [0, 1],
+      ],
+      4,
+      c => points.push([...c]),
+      true,
+    );
+    expect(points).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [0, 2],
+    ]);
+  });
+
+  it('visits the origin of an empty lattice', () => {
+    const points: number[][] = [];
+    finckePohst([], 1, c => points.push([...c]));
+    expect(points).toEqual([[]]);
+  });
+});
+
 describe('Precise LLL basis reduction', () => {
   it('can LLL reduce', () => {
     const basis = [
@@ -276,7 +329,7 @@ describe('Precise LLL basis reduction', () => {
     for (let i = 0; i < 3; ++i) {
       for (let j = 0; j < i; ++j) {
         expect(
-          fractionalDot(lll.basis[i], lll.gram.dual[j]).compare(0.5)
+          fractionalDot(lll.basis[i], lll.gram.dual[j]).compare(0.5),
         ).toBeLessThanOrEqual(0);
       }
     }
@@ -287,7 +340,7 @@ describe('Precise LLL basis reduction', () => {
       const mu = fractionalDot(lll.basis[k], lll.gram.dual[k - 1]);
       const n1 = fractionalDot(ok1, ok1);
       expect(
-        n1.mul('3/4').compare(fractionalDot(ok, ok).add(n1.mul(mu.mul(mu))))
+        n1.mul('3/4').compare(fractionalDot(ok, ok).add(n1.mul(mu.mul(mu)))),
       ).toBeLessThanOrEqual(0);
     }
 
@@ -332,7 +385,9 @@ describe('Precise LLL basis reduction', () => {
           for (let i = 0; i < basis.length; ++i) {
             for (let j = 0; j < i; ++j) {
               expect(
-                fractionalDot(lll.basis[i], lll.gram.dual[j]).abs().compare(0.5)
+                fractionalDot(lll.basis[i], lll.gram.dual[j])
+                  .abs()
+                  .compare(0.5),
               ).toBeLessThanOrEqual(0);
             }
           }
@@ -345,7 +400,7 @@ describe('Precise LLL basis reduction', () => {
             expect(
               n1
                 .mul('3/4')
-                .compare(fractionalDot(ok, ok).add(n1.mul(mu).mul(mu)))
+                .compare(fractionalDot(ok, ok).add(n1.mul(mu).mul(mu))),
             ).toBeLessThanOrEqual(0);
           }
         }
@@ -493,10 +548,10 @@ describe('Matrix inverse', () => {
       }
       expect(
         matmul(mat, inv(mat)).map(row =>
-          row.map(x => Math.round(10000 * x) / 10000 || 0)
-        )
+          row.map(x => Math.round(10000 * x) / 10000 || 0),
+        ),
       ).toEqual(eye(N));
-    }
+    },
   );
 
   it('throws for non-square matrix', () => {
@@ -505,7 +560,7 @@ describe('Matrix inverse', () => {
         [1, 2],
         [3, 4],
         [5, 6],
-      ])
+      ]),
     ).toThrow('Non-square matrix');
   });
 
@@ -514,7 +569,7 @@ describe('Matrix inverse', () => {
       inv([
         [1, 0],
         [0, 0],
-      ])
+      ]),
     ).toThrow('Matrix is singular');
   });
 
@@ -556,10 +611,10 @@ describe('Matrix inverse', () => {
       }
       expect(
         fractionalMatmul(mat, fractionalInv(mat)).map(row =>
-          row.map(x => x.valueOf())
-        )
+          row.map(x => x.valueOf()),
+        ),
       ).toEqual(eye(N));
-    }
+    },
   );
 
   it('throws for non-square matrix with fractional entries', () => {
@@ -568,7 +623,7 @@ describe('Matrix inverse', () => {
         [1, 2],
         [3, 4],
         [5, 6],
-      ])
+      ]),
     ).toThrow('Non-square matrix');
   });
 
@@ -577,7 +632,7 @@ describe('Matrix inverse', () => {
       fractionalInv([
         [1, 0],
         [0, 0],
-      ])
+      ]),
     ).toThrow('Matrix is singular');
   });
 
@@ -594,7 +649,7 @@ describe('Matrix inverse', () => {
       }
       const inverse = inv(mat);
       const I = matmul(mat, inverse).map(row =>
-        row.map(x => Math.round(x * 1024) / 1024 || 0)
+        row.map(x => Math.round(x * 1024) / 1024 || 0),
       );
       expect(I).toEqual(eye(N));
     }
@@ -656,7 +711,7 @@ describe('Determinant', () => {
         }
       }
       expect(det(mat) / analytic).toBeCloseTo(1, 1);
-    }
+    },
   );
 
   it('computes 0 for the origin', () => {
@@ -753,7 +808,7 @@ describe('Transpose', () => {
   it('transposes a 3x2 matrix with rational entries', () => {
     const mat = [[1, 0.5], [3], ['2/7', 5]];
     expect(
-      fractionalTranspose(mat).map(row => row.map(f => f.toFraction()))
+      fractionalTranspose(mat).map(row => row.map(f => f.toFraction())),
     ).toEqual([
       ['1', '3', '2/7'],
       ['1/2', '0', '5'],
@@ -772,7 +827,7 @@ describe('Auxiliary matrix methods', () => {
       [6, 8],
     ]);
     expect(
-      fractionalMatscale(A, 2).map(row => row.map(f => f.valueOf()))
+      fractionalMatscale(A, 2).map(row => row.map(f => f.valueOf())),
     ).toEqual([
       [2, 4],
       [6, 8],
@@ -793,7 +848,7 @@ describe('Auxiliary matrix methods', () => {
       [9, 11],
     ]);
     expect(
-      fractionalMatadd(A, B).map(row => row.map(f => f.valueOf()))
+      fractionalMatadd(A, B).map(row => row.map(f => f.valueOf())),
     ).toEqual([
       [0, 7],
       [9, 11],
@@ -814,7 +869,7 @@ describe('Auxiliary matrix methods', () => {
       [-3, -3],
     ]);
     expect(
-      fractionalMatsub(A, B).map(row => row.map(f => f.valueOf()))
+      fractionalMatsub(A, B).map(row => row.map(f => f.valueOf())),
     ).toEqual([
       [2, -3],
       [-3, -3],
@@ -897,7 +952,7 @@ describe('Diophantine equation solver', () => {
     const commas = ['676/675', '1216/1215'].map(toMonzo);
     const subgroupMonzos = solveDiophantine(
       transpose(subgroup),
-      transpose(commas)
+      transpose(commas),
     );
     expect(transpose(subgroupMonzos)).toEqual([
       [2, -3, 2, 0],
@@ -0,0 +1,204 @@
+import {describe, it, expect} from 'vitest';
+import {
+  BigFraction,
+  bigIntRoot,
+  bigLog,
+  monzoToBigFraction,
+} from '../big-fraction.js';
+import {Fraction} from '../fraction.js';
+
+describe('BigFraction', () => {
+  it('can be constructed from a pair of bigints', () => {
+    const fraction = new BigFraction(6n, -4n);
+    expect(fraction.s).toBe(-1);
+    expect(fraction.n).toBe(3n);
+    expect(fraction.d).toBe(2n);
+  });
+
+  it('can be constructed from a fraction', () => {
+    const fraction = new BigFraction(new Fraction(-5, 3));
+    expect(fraction).toEqual({s: -1, n: 5n, d: 3n});
+  });
+
+  it('converts floats exactly', () => {
+    const fraction = new BigFraction(0.1);
+    expect(fraction.d).toBe(2n ** 55n);
+    expect(fraction.valueOf()).toBe(0.1);
+  });
+
+  it('parses repeating decimals', () => {
+    expect(new BigFraction("100.'91823'").toString()).toBe("100.'91823'");
+    expect(new BigFraction("1.'3'").toFraction()).toBe('4/3');
+  });
+
+  it('parses scientific notation', () => {
+    expect(new BigFraction('13e-3').equals('13/1000')).toBe(true);
+    expect(new BigFraction('-1.5e40').toFraction()).toBe(
+      '-15' + '0'.repeat(39),
+    );
+  });
+
+  it('parses fractions above the safe limit', () => {
+    const fraction = new BigFraction(
+      '36893488147419103232/36472996377170786403',
+    );
+    expect(fraction.n).toBe(36893488147419103232n);
+    expect(fraction.d).toBe(36472996377170786403n);
+  });
+
+  it('rejects garbage', () => {
+    expect(() => new BigFraction('1.2/3')).toThrow(
+      'Parameters must be integer',
+    );
+    expect(() => new BigFraction('x')).toThrow("Invalid integer 'x'");
+    expect(() => new BigFraction(1n, 0n)).toThrow('Division by Zero');
+  });
+
+  it('survives stacked powers that overflow Fraction', () => {
+    const schisma = new Fraction('32805/32768');
+    expect(() => schisma.pow(10)).toThrow('above safe limit');
+    const big = new BigFraction(schisma).pow(10)!;
+    expect(big.equals(new BigFraction(32805n ** 10n, 32768n ** 10n))).toBe(
+      true,
+    );
+    expect(big.pow('-1/10')!.equals('32768/32805')).toBe(true);
+  });
+
+  it('adds and multiplies', () => {
+    const a = new BigFraction({n: 2n, d: 3n});
+    expect(a.add('14.9').toFraction()).toBe('467/30');
+    expect(a.sub('14.9').toFraction()).toBe('-427/30');
+    expect(new BigFraction("-17.'345'").mul(3).toFraction()).toBe('-5776/111');
+    expect(new BigFraction("-17.'345'").div(3).toFraction()).toBe('-5776/999');
+  });
+
+  it('has lens addition', () => {
+    expect(new BigFraction('5/3').lensAdd('3/2').toFraction()).toBe('15/19');
+    expect(new BigFraction('15/19').lensSub('3/2').toFraction()).toBe('5/3');
+  });
+
+  it('computes modulo', () => {
+    expect(new BigFraction(-5n).mod(3).toFraction()).toBe('-2');
+    expect(new BigFraction(-5n).mmod(3).toFraction()).toBe('1');
+  });
+
+  it('rounds', () => {
+    expect(new BigFraction("4.'3'").floor().toFraction()).toBe('4');
+    expect(new BigFraction("4.'3'").ceil().toFraction()).toBe('5');
+    expect(new BigFraction('-4.5').round().toFraction()).toBe('-4');
+    expect(new BigFraction('0.78').roundTo('1/9').toFraction()).toBe('7/9');
+  });
+
+  it('compares', () => {
+    expect(new BigFraction('19.7').compare('98/5')).toBe(1);
+    expect(new BigFraction('19.6').compare('98/5')).toBe(0);
+    expect(new BigFraction('19.5').compare('98/5')).toBe(-1);
+  });
+
+  it('computes fractional gcd and lcm', () => {
+    expect(new BigFraction(5n, 8n).gcd('3/7').toFraction()).toBe('1/56');
+    expect(new BigFraction(5n, 8n).lcm('3/7').toFraction()).toBe('15');
+    expect(new BigFraction('7.5').divisible('5/2')).toBe(true);
+    expect(new BigFraction('7.6').divisible('5/2')).toBe(false);
+  });
+
+  it('computes geometric modulo', () => {
+    expect(new BigFraction(5n).geoMod(2).toFraction()).toBe('5/4');
+    expect(new BigFraction(1n, 11n).geoMod(3).toFraction()).toBe('27/11');
+    expect(new BigFraction(1n, 11n).geoMod('-1/3').toFraction()).toBe('9/11');
+  });
+
+  it('reduces huge powers geometrically', () => {
+    const huge = new BigFraction(3n ** 1000n);
+    expect(huge.geoMod(3).isUnity()).toBe(true);
+    expect(huge.mul(5).geoMod(3).toFraction()).toBe('5/3');
+  });
+
+  it('computes the greatest common radical', () => {
+    expect(new BigFraction(8n).gcr(4)!.toFraction()).toBe('2');
+    expect(new BigFraction(81n).gcr(6561)!.toFraction()).toBe('81');
+    expect(new BigFraction(27n).gcr(243)!.toFraction()).toBe('3');
+    expect(new BigFraction(1n, 2n).gcr('1/3')).toBeNull();
+  });
+
+  it('computes logdivision', () => {
+    expect(new BigFraction(4n).log(2)!.toFraction()).toBe('2');
+    expect(new BigFraction(64n, 27n).log('16/9')!.toFraction()).toBe('3/2');
+    expect(new BigFraction(64n, 27n).log(7)).toBeNull();
+    expect(new BigFraction(-8n).log(-2)!.toFraction()).toBe('3');
+    expect(new BigFraction(2n ** 3000n).log(2n ** 1000n)!.toFraction()).toBe(
+      '3',
+    );
+  });
+
+  it('computes continued fractions', () => {
+    expect(new BigFraction('7/8').toContinued()).toEqual([0n, 1n, 7n]);
+  });
+
+  it('measures values above the float range', () => {
+    const fraction = new BigFraction(3n ** 1000n + 1n, 3n ** 999n);
+    expect(fraction.valueOf()).toBeCloseTo(3);
+  });
+
+  it('converts values near the double-precision limit', () => {
+    expect(new BigFraction(2n ** 1030n, 511n).valueOf()).toBe(
+      (512 / 511) * 2 ** 1021,
+    );
+    const value = new BigFraction(2n ** 1100n + 1n, 2n ** 80n + 3n).valueOf();
+    expect(value / 2 ** 1020).toBeCloseTo(1 / (1 + 3 * 2 ** -80));
+    expect(new BigFraction(-(2n ** 1023n), 3n).valueOf()).toBe(
+      -(2 ** 1023) / 3,
+    );
+    expect(new BigFraction(511n, 2n ** 1030n).valueOf()).toBe(511 * 2 ** -1030);
+    expect(new BigFraction(2n ** 1025n, 1n).valueOf()).toBe(Infinity);
+  });
+
+  it('converts back to Fraction', () => {
+    const fraction = new BigFraction('-5/3').toFractionInstance();
+    expect(fraction).toBeInstanceOf(Fraction);
+    expect(fraction.equals('-5/3')).toBe(true);
+    expect(() => new BigFraction(2n ** 60n).toFractionInstance()).toThrow(
+      'Numerator above safe limit',
+    );
+  });
+
+  it('converts to and from monzos', () => {
+    const monzo = [-84, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 13];
+    const fraction = monzoToBigFraction(monzo);
+    expect(fraction.n).toBe(67n ** 13n);
+    expect(fraction.d).toBe(2n ** 84n);
+    expect(fraction.toMonzo()).toEqual(monzo);
+  });
+});
+
+describe('BigFraction JSON serialization', () => {
+  it('round-trips through JSON', () => {
+    const serialized = JSON.stringify([
+      new BigFraction(-5n, 3n),
+      new Fraction(1, 2),
+      new BigFraction(2n ** 70n),
+      'hello',
+    ]);
+    expect(serialized).toBe(
+      '[{"n":"-5","d":"3"},{"n":1,"d":2},{"n":"1180591620717411303424","d":"1"},"hello"]',
+    );
+    const data = JSON.parse(serialized, BigFraction.reviver);
+    expect(data[0]).toBeInstanceOf(BigFraction);
+    expect(data[0]).toEqual({s: -1, n: 5n, d: 3n});
+    expect(data[1]).toEqual({n: 1, d: 2});
+    expect(data[2]).toEqual({s: 1, n: 2n ** 70n, d: 1n});
+    expect(data[3]).toBe('hello');
+  });
+});
+
+describe('BigInt helpers', () => {
+  it('takes integer roots', () => {
+    expect(bigIntRoot(10n ** 40n, 2n)).toBe(10n ** 20n);
+    expect(bigIntRoot(10n ** 40n - 1n, 2n)).toBe(10n ** 20n - 1n);
+    expect(bigIntRoot(3n ** 300n, 3n)).toBe(3n ** 100n);
+  });
+
+  it('takes logarithms above the float range', () => {
+    expect(bigLog(2n ** 2000n)).toBeCloseTo(2000 * Math.LN2);
+  });
+});
@@ -1,10 +1,23 @@
 import {describe, it, expect} from 'vitest';
 import {
+  cartesianProduct,
   combinations,
+  compositions,
   iterCombinations,
+  iterCompositions,
   iterKCombinations,
+  iterKMultisets,
+  iterMultisetPermutations,
+  iterPartitions,
+  iterPermutations,
   kCombinations,
+  kMultisets,
+  multisetPermutations,
+  partitions,
+  permutations,
+  permutationsWithRepetition,
 } from '../combinations.js';
+import {binomial} from '../core.js';
 
 describe('K-combinations generator', () => {
   it('produces all subsets of size 3 of the set {a, b, c, d}', () => {
@@ -41,3 +54,110 @@ describe('Combinations iterative generator', () => {
     );
   });
 });
+
+function factorial(n: number) {
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+}
+
+describe('Permutations generator', () => {
+  it('produces all 2-permutations of the set {a, b, c}', () => {
+    const result = permutations(['a', 'b', 'c'], 2);
+    expect(result.map(p => p.join('')).join(',')).toBe('ab,ac,ba,bc,ca,cb');
+  });
+
+  it('agrees with the binomial coefficient', () => {
+    const set = [1, 2, 3, 4, 5, 6];
+    for (let k = 1; k <= set.length; k++) {
+      expect([...iterPermutations(set, k)]).toHaveLength(
+        binomial(set.length, k) * factorial(k)
+      );
+    }
+    expect(permutations(set, 0)).toEqual([]);
+    expect(permutations(set, 7)).toEqual([]);
+  });
+
+  it('produces permutations with repetition', () => {
+    const result = permutationsWithRepetition(['a', 'b'], 3);
+    expect(result.map(p => p.join('')).join(',')).toBe(
+      'aaa,aab,aba,abb,baa,bab,bba,bbb'
+    );
+  });
+});
+
+describe('Multiset permutations generator', () => {
+  it('produces distinct rearrangements', () => {
+    const result = multisetPermutations(['a', 'a', 'b']);
+    expect(result.map(p => p.join('')).join(',')).toBe('aab,aba,baa');
+  });
+
+  it('agrees with the multinomial coefficient', () => {
+    const multiset = [1, 1, 1, 2, 2, 3];
+    const iterator = iterMultisetPermutations(multiset);
+    let result = iterator.next();
+    let count = 0;
+    while (!result.done) {
+      count++;
+      result = iterator.next();
+    }
+    expect(result.value).toBe(binomial(6, 3) * binomial(3, 2));
+    expect(count).toBe(60);
+  });
+});
+
+describe('K-multisets generator', () => {
+  it('produces combinations with replacement', () => {
+    const result = kMultisets(['a', 'b', 'c'], 2);
+    expect(result.map(m => m.join('')).join(',')).toBe('aa,ab,ac,bb,bc,cc');
+  });
+
+  it('agrees with the binomial coefficient', () => {
+    for (let k = 1; k <= 5; k++) {
+      expect([...iterKMultisets([1, 2, 3, 4], k)]).toHaveLength(
+        binomial(4 + k - 1, k)
+      );
+    }
+  });
+});
+
+describe('Cartesian product generator', () => {
+  it('produces all pairs', () => {
+    const result = cartesianProduct([
+      ['a', 'b'],
+      ['x', 'y', 'z'],
+    ]);
+    expect(result.map(p => p.join('')).join(',')).toBe('ax,ay,az,bx,by,bz');
+  });
+
+  it('is empty if any set is empty', () => {
+    expect(cartesianProduct([['a'], []])).toEqual([]);
+    expect(cartesianProduct([])).toEqual([]);
+  });
+});
+
+describe('Integer compositions generator', () => {
+  it('produces the compositions of 3', () => {
+    expect(compositions(3)).toEqual([[1, 1, 1], [1, 2], [2, 1], [3]]);
+  });
+
+  it('agrees with the binomial coefficient', () => {
+    for (let k = 1; k <= 7; k++) {
+      expect([...iterCompositions(7, k)]).toHaveLength(binomial(6, k - 1));
+    }
+    expect(compositions(7)).toHaveLength(2 ** 6);
+  });
+});
+
+describe('Integer partitions generator', () => {
+  it('produces the partitions of 4', () => {
+    expect(partitions(4)).toEqual([[4], [3, 1], [2, 2], [2, 1, 1], [1, 1, 1, 1]]);
+  });
+
+  it('counts the partitions of 10', () => {
+    expect([...iterPartitions(10)]).toHaveLength(42);
+    expect(partitions(10, 2)).toHaveLength(6);
+  });
+});
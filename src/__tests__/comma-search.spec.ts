@@ -0,0 +1,117 @@
+import {describe, it, expect} from 'vitest';
+import {commaName, findCommas} from '../comma-search.js';
+import {smoothRatios} from '../smooth-numbers.js';
+import {centsToValue} from '../conversion.js';
+import {primeRange} from '../primes.js';
+import {tenneyHeight, wilsonHeight} from '../core.js';
+import {Subgroup} from '../subgroup.js';
+
+// Exhaustive search for commas of a prime limit as a reference.
+function referenceCommas(
+  primes: number[],
+  maxCents: number,
+  maxHeight: number,
+) {
+  return smoothRatios(primes, maxHeight, 1, centsToValue(maxCents))
+    .filter(f => !f.isUnity())
+    .map(f => f.toFraction())
+    .sort();
+}
+
+describe('Comma names', () => {
+  it('knows the syntonic comma', () => {
+    expect(commaName('81/80')).toBe('syntonic comma');
+  });
+
+  it('knows the inverse of the breedsma', () => {
+    expect(commaName('2400/2401')).toBe('breedsma');
+  });
+
+  it('returns undefined for unknown commas', () => {
+    expect(commaName('1375/1372')).toBe(undefined);
+  });
+});
+
+describe('Comma finder', () => {
+  it('finds small 5-limit commas', () => {
+    const results = findCommas(5, 50, Math.log(1e7));
+    expect(results.map(r => r.comma.toFraction())).toEqual([
+      '81/80',
+      '128/125',
+      '250/243',
+      '2048/2025',
+      '3125/3072',
+    ]);
+    const [syntonic] = results;
+    expect(syntonic.monzo).toEqual([-4, 4, -1]);
+    expect(syntonic.cents).toBeCloseTo(21.506);
+    expect(syntonic.height).toBeCloseTo(tenneyHeight('81/80'));
+    expect(syntonic.name).toBe('syntonic comma');
+  });
+
+  it.each([
+    [5, 50, Math.log(1e9)],
+    [7, 20, Math.log(1e9)],
+    [11, 10, Math.log(1e8)],
+  ])(
+    'agrees with exhaustive search in the %s-limit',
+    (limit, maxCents, maxHeight) => {
+      const commas = findCommas(limit, maxCents, maxHeight)
+        .map(r => r.comma.toFraction())
+        .sort();
+      const primes = primeRange(primeRange(100).indexOf(limit) + 1);
+      expect(commas).toEqual(referenceCommas(primes, maxCents, maxHeight));
+    },
+  );
+
+  it('supports Wilson height', () => {
+    const commas = findCommas(7, 30, 45, 'wilson');
+    for (const {comma, height} of commas) {
+      expect(height).toBe(wilsonHeight(comma));
+      expect(height).toBeLessThanOrEqual(45);
+    }
+    // Numbers with sopfr at most 45 are at most 3^15.
+    const reference = referenceCommas(
+      [2, 3, 5, 7],
+      30,
+      Math.log(3 ** 15) + 1e-9,
+    ).filter(f => wilsonHeight(f) <= 45);
+    expect(commas.map(r => r.comma.toFraction()).sort()).toEqual(reference);
+  });
+
+  it('searches non-prime subgroups', () => {
+    const results = findCommas('2.3.7/5', 30, Math.log(1e8));
+    expect(results.map(r => r.comma.toFraction())).toEqual([
+      '3645/3584',
+      '5120/5103',
+    ]);
+    expect(results[1].monzo).toEqual([10, -6, -1]);
+    expect(results[1].name).toBe('hemifamity comma');
+  });
+
+  it('accepts subgroup instances', () => {
+    const results = findCommas(new Subgroup('2.9.7'), 30, Math.log(1e7));
+    expect(results.map(r => r.comma.toFraction())).toEqual(['64/63']);
+    expect(results[0].monzo).toEqual([6, -1, -1]);
+  });
+
+  it('scales to the 17-limit', () => {
+    const results = findCommas(17, 2, Math.log(1e10));
+    expect(results.length).toBeGreaterThan(10);
+    for (const {comma, cents, height} of results) {
+      expect(cents).toBeGreaterThan(0);
+      expect(cents).toBeLessThanOrEqual(2);
+      expect(height).toBeLessThanOrEqual(Math.log(1e10) + 1e-9);
+      expect(comma.compare(1)).toBeGreaterThan(0);
+    }
+    const commas = results.map(r => r.comma.toFraction());
+    expect(commas).toContain('2401/2400');
+    expect(commas).toContain('4096/4095');
+  });
+
+  it('rejects non-positive bounds', () => {
+    expect(() => findCommas(5, 0, 10)).toThrow(
+      'Search bounds must be positive',
+    );
+  });
+});
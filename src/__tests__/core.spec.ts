@@ -1,21 +1,28 @@
 import {describe, it, expect} from 'vitest';
 import {
+  FractionMap,
   FractionSet,
   arraysEqual,
+  benedettiHeight,
   binomial,
   ceilPow2,
   circleDifference,
   circleDistance,
   clamp,
   div,
+  eulerGradus,
   extendedEuclid,
   fareyInterior,
   fareySequence,
   falsifyConstantStructure,
   hasMarginConstantStructure,
   iteratedEuclid,
+  keesHeight,
   monzoToCents,
+  teNorm,
   tenneyHeight,
+  tenneyNorm,
+  weilHeight,
   wilsonHeight,
   modInv,
 } from '../core.js';
@@ -309,6 +316,79 @@ describe('Farey interior generator', () => {
   });
 });
 
+describe('Fraction set', () => {
+  it('deduplicates equal fractions', () => {
+    const set = new FractionSet([new Fraction(3, 2), '6/4', 1.5, '4/3']);
+    expect(set.size).toBe(2);
+    expect(set.has('3/2')).toBe(true);
+    expect(set.has(new Fraction(-3, 2))).toBe(false);
+    expect(set.delete(new Fraction(9, 6))).toBe(true);
+    expect(set.has('3/2')).toBe(false);
+    expect(set.delete('3/2')).toBe(false);
+    set.clear();
+    expect(set.has('4/3')).toBe(false);
+  });
+
+  it('handles thousands of elements', () => {
+    const set = new FractionSet();
+    for (let n = 1; n <= 100; ++n) {
+      for (let d = 1; d <= 100; ++d) {
+        set.add(new Fraction(n, d));
+      }
+    }
+    expect(set.size).toBe(6087);
+  });
+
+  it('supports set algebra', () => {
+    const a = new FractionSet(['1', '5/4', '3/2']);
+    const b = new FractionSet(['3/2', '7/4']);
+    const toStrings = (set: FractionSet) =>
+      [...set].map(f => f.toFraction()).sort();
+    expect(toStrings(a.union(b))).toEqual(['1', '3/2', '5/4', '7/4']);
+    expect(toStrings(a.intersection(['6/4', '2']))).toEqual(['3/2']);
+    expect(toStrings(a.difference(b))).toEqual(['1', '5/4']);
+    expect(toStrings(a.product(['1', '2']))).toEqual([
+      '1',
+      '2',
+      '3',
+      '3/2',
+      '5/2',
+      '5/4',
+    ]);
+  });
+
+  it('closes under multiplication within a bound', () => {
+    const closure = new FractionSet(['3/2', '2/3']).productClosure(
+      f => tenneyHeight(f) <= Math.log(100)
+    );
+    expect([...closure].map(f => f.toFraction()).sort()).toEqual([
+      '1',
+      '2/3',
+      '3/2',
+      '4/9',
+      '9/4',
+    ]);
+    expect(() =>
+      new FractionSet(['3/2', '5/4']).productClosure(() => true, 100)
+    ).toThrow('Product closure exceeds maximum size');
+  });
+});
+
+describe('Fraction map', () => {
+  it('associates values to equal fractions', () => {
+    const map = new FractionMap<string>([['3/2', 'fifth']]);
+    map.set(new Fraction(6, 4), 'perfect fifth');
+    map.set(1.25, 'major third');
+    expect(map.size).toBe(2);
+    expect(map.get('3/2')).toBe('perfect fifth');
+    expect(map.get(new Fraction(5, 4))).toBe('major third');
+    expect(map.get('4/3')).toBeUndefined();
+    expect(map.has(1.5)).toBe(true);
+    expect(map.delete('10/8')).toBe(true);
+    expect([...map.keys()].map(f => f.toFraction())).toEqual(['3/2']);
+  });
+});
+
 describe('Constant structure falsifier', () => {
   it('Rejects diatonic in 12-tone equal temperament with F-to-B against B-to-F', () => {
     const steps = [2, 4, 5, 7, 9, 11, 12];
@@ -654,6 +734,120 @@ describe('Wilson complexity measure', () => {
   });
 });
 
+describe('Benedetti complexity measure', () => {
+  it('calculates the complexity of 11/8', () => {
+    expect(benedettiHeight('11/8')).toBe(88);
+  });
+
+  it('calculates the complexity of -8/11', () => {
+    expect(
+      benedettiHeight(
+        new Map([
+          [-1, 1],
+          [2, 3],
+          [11, -1],
+        ])
+      )
+    ).toBe(88);
+  });
+
+  it('calculates the complexity of 81/80', () => {
+    expect(benedettiHeight([-4, 4, -1])).toBe(6480);
+  });
+
+  it('has a value for zero', () => {
+    expect(benedettiHeight(0)).toBe(Infinity);
+  });
+});
+
+describe('Weil complexity measure', () => {
+  it('calculates the complexity of 11/8', () => {
+    expect(weilHeight('11/8')).toBeCloseTo(Math.log(11));
+  });
+
+  it('calculates the complexity of 8/11', () => {
+    expect(weilHeight([3, 0, 0, 0, -1])).toBeCloseTo(Math.log(11));
+  });
+
+  it('calculates the complexity of 16/15', () => {
+    expect(weilHeight('-16/15')).toBeCloseTo(Math.log(16));
+  });
+
+  it('has a value for zero', () => {
+    expect(weilHeight(0)).toBe(Infinity);
+  });
+});
+
+describe('Kees complexity measure', () => {
+  it('calculates the complexity of 11/8', () => {
+    expect(keesHeight('11/8')).toBeCloseTo(Math.log(11));
+  });
+
+  it('calculates the complexity of 16/15', () => {
+    expect(keesHeight([4, -1, -1])).toBeCloseTo(Math.log(15));
+  });
+
+  it('ignores powers of two', () => {
+    expect(keesHeight(1024)).toBe(0);
+  });
+
+  it('agrees with the odd limit of 7/5', () => {
+    expect(keesHeight('10/7')).toBeCloseTo(Math.log(7));
+    expect(keesHeight('7/5')).toBeCloseTo(Math.log(7));
+  });
+
+  it('has a value for zero', () => {
+    expect(keesHeight(0)).toBe(Infinity);
+  });
+});
+
+describe("Euler's gradus suavitatis", () => {
+  it.each([
+    ['1/1', 1],
+    ['2/1', 2],
+    ['3/2', 4],
+    ['4/3', 5],
+    ['5/4', 7],
+    ['6/5', 8],
+    ['9/8', 8],
+    ['81/80', 17],
+  ])('calculates the gradus of %s as %s', (value, gradus) => {
+    expect(eulerGradus(value)).toBe(gradus);
+  });
+
+  it('accepts monzos', () => {
+    expect(eulerGradus([-1, 1])).toBe(4);
+  });
+
+  it('has a value for zero', () => {
+    expect(eulerGradus(0)).toBe(Infinity);
+  });
+});
+
+describe('Tenney-weighted norms', () => {
+  it('agrees with the Tenney height in octaves', () => {
+    expect(tenneyNorm('81/80')).toBeCloseTo(tenneyHeight('81/80') / Math.LN2);
+  });
+
+  it('calculates the TE norm of 81/80', () => {
+    const expected = Math.hypot(4, 4 * Math.log2(3), Math.log2(5));
+    expect(teNorm([-4, 4, -1])).toBeCloseTo(expected);
+    expect(tenneyNorm('81/80', 2)).toBeCloseTo(expected);
+  });
+
+  it('calculates the maximum norm of 81/80', () => {
+    expect(tenneyNorm('81/80', Infinity)).toBeCloseTo(4 * Math.log2(3));
+  });
+
+  it('ignores the sign', () => {
+    expect(teNorm('-3/2')).toBeCloseTo(teNorm('3/2'));
+  });
+
+  it('has a value for zero', () => {
+    expect(teNorm(0)).toBe(Infinity);
+  });
+});
+
 describe('Modular inverse calculator', () => {
   it('finds modular inverses when they exist', () => {
     for (let a = -30; a < 30; ++a) {
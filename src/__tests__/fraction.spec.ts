@@ -887,3 +887,69 @@ describe('JSON serialization', () => {
     }
   });
 });
+
+describe('Fraction formatting', () => {
+  it('formats ratios', () => {
+    expect(new Fraction(3, 2).format({style: 'ratio'})).toBe('3/2');
+    expect(new Fraction(-6).format({style: 'ratio'})).toBe('-6');
+  });
+
+  it('formats mixed numbers', () => {
+    expect(new Fraction(3, 2).format({style: 'mixed'})).toBe('1 1/2');
+    expect(new Fraction(-7, 3).format({style: 'mixed'})).toBe('-2 1/3');
+    expect(new Fraction(-1, 3).format({style: 'mixed'})).toBe('-1/3');
+    expect(new Fraction(4).format({style: 'mixed'})).toBe('4');
+    expect(new Fraction(0).format({style: 'mixed'})).toBe('0');
+  });
+
+  it('formats fixed decimals', () => {
+    expect(new Fraction(3, 2).format({style: 'fixed'})).toBe('1.500');
+    expect(new Fraction(2, 3).format({style: 'fixed', precision: 5})).toBe(
+      '0.66667'
+    );
+    expect(new Fraction(-5, 2).format({style: 'fixed', precision: 0})).toBe(
+      '-3'
+    );
+    expect(new Fraction(-1, 3000).format({style: 'fixed'})).toBe('0.000');
+  });
+
+  it('formats scientific notation', () => {
+    expect(new Fraction(3, 2000).format({style: 'scientific'})).toBe('1.5e-3');
+    expect(new Fraction(-123456).format({style: 'scientific'})).toBe(
+      '-1.23456e5'
+    );
+    expect(new Fraction(1, 3).format({style: 'scientific'})).toBe("3.'3'e-1");
+    expect(
+      new Fraction(1, 3).format({style: 'scientific', precision: 2})
+    ).toBe('3.33e-1');
+    expect(
+      new Fraction(9999, 1000).format({style: 'scientific', precision: 2})
+    ).toBe('1.00e1');
+    expect(new Fraction(0).format({style: 'scientific'})).toBe('0e0');
+  });
+
+  it('defaults to repeating decimals', () => {
+    expect(new Fraction("100.'91823'").format()).toBe("100.'91823'");
+  });
+
+  it('rejects invalid precision', () => {
+    expect(() =>
+      new Fraction(1).format({style: 'fixed', precision: -1})
+    ).toThrow('Precision must be a non-negative integer');
+  });
+
+  it('round-trips ratio, repeating and scientific forms', () => {
+    for (let n = -30; n <= 30; ++n) {
+      for (let d = 1; d <= 14; ++d) {
+        const fraction = new Fraction(n * 7, d * 2500);
+        for (const style of ['ratio', 'repeating', 'scientific'] as const) {
+          const formatted = fraction.format({style});
+          expect(
+            new Fraction(formatted).equals(fraction),
+            `failed with ${formatted}`
+          ).toBe(true);
+        }
+      }
+    }
+  });
+});
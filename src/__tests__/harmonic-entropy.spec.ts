@@ -0,0 +1,101 @@
+import {describe, it, expect} from 'vitest';
+import {
+  HarmonicEntropyTable,
+  harmonicEntropy,
+  harmonicEntropyCurve,
+  harmonicEntropyRatios,
+} from '../harmonic-entropy.js';
+
+describe('Harmonic entropy ratio set', () => {
+  it('builds the ratios of a small Farey sequence', () => {
+    expect(
+      harmonicEntropyRatios({order: 3}).map(r => r.ratio.toFraction()),
+    ).toEqual(['1', '3/2', '2', '3']);
+  });
+
+  it('weights by the Tenney height', () => {
+    const [unison, fifth] = harmonicEntropyRatios({order: 3});
+    expect(unison.weight).toBe(1);
+    expect(fifth.weight).toBeCloseTo(1 / Math.sqrt(6));
+    expect(fifth.cents).toBeCloseTo(701.955);
+  });
+
+  it('supports Weil and uniform weighting', () => {
+    const weil = harmonicEntropyRatios({order: 3, weighting: 'weil'});
+    expect(weil.map(r => r.weight)).toEqual([1, 1 / 3, 1 / 2, 1 / 3]);
+    const uniform = harmonicEntropyRatios({order: 3, weighting: 'uniform'});
+    expect(uniform.map(r => r.weight)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('bounds the ratios by Tenney height', () => {
+    const ratios = harmonicEntropyRatios({order: 5, maxHeight: Math.log(6)});
+    expect(ratios.map(r => r.ratio.toFraction())).toEqual([
+      '1',
+      '3/2',
+      '2',
+      '3',
+      '4',
+      '5',
+    ]);
+  });
+});
+
+describe('Harmonic entropy', () => {
+  it('ranks the fifth as more consonant than a neutral interval', () => {
+    expect(harmonicEntropy(701.955)).toBeLessThan(harmonicEntropy(650));
+  });
+
+  it('has a local minimum at the octave', () => {
+    const octave = harmonicEntropy(1200);
+    expect(octave).toBeLessThan(harmonicEntropy(1180));
+    expect(octave).toBeLessThan(harmonicEntropy(1220));
+  });
+
+  it('grows with the spread', () => {
+    expect(harmonicEntropy(386, {s: 10})).toBeLessThan(
+      harmonicEntropy(386, {s: 20}),
+    );
+  });
+
+  it('vanishes for a single ratio', () => {
+    expect(harmonicEntropy(100, {order: 1})).toBeCloseTo(0);
+  });
+});
+
+describe('Harmonic entropy curve', () => {
+  const ratios = harmonicEntropyRatios();
+
+  it('agrees with direct evaluation', () => {
+    const curve = harmonicEntropyCurve(0, 1200, {}, ratios);
+    expect(curve).toHaveLength(1201);
+    for (let i = 0; i <= 1200; i += 50) {
+      expect(curve[i]).toBeCloseTo(harmonicEntropy(i, {}, ratios), 3);
+    }
+  });
+
+  it('supports coarser grids', () => {
+    const curve = harmonicEntropyCurve(600, 800, {resolution: 2}, ratios);
+    expect(curve).toHaveLength(101);
+    expect(curve[50]).toBeCloseTo(harmonicEntropy(700, {}, ratios), 2);
+  });
+
+  it('rejects empty ranges', () => {
+    expect(() => harmonicEntropyCurve(10, 0)).toThrow();
+  });
+});
+
+describe('Harmonic entropy table', () => {
+  const table = new HarmonicEntropyTable(0, 1200, {resolution: 2});
+
+  it('interpolates between grid points', () => {
+    expect(table.maxCents).toBe(1200);
+    expect(table.valueAt(701.955)).toBeCloseTo(harmonicEntropy(701.955), 2);
+    expect(table.valueAt(315)).toBeCloseTo(harmonicEntropy(315), 2);
+  });
+
+  it('rejects intervals outside the range', () => {
+    expect(() => table.valueAt(1201)).toThrow(
+      '1201 cents is outside the table',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {describe, it, expect} from 'vitest';
+import {
+  harmonicSegment,
+  integerLimitSet,
+  primeLimitSet,
+  subharmonicSegment,
+  tonalityDiamond,
+} from '../interval-sets';
+import {Fraction} from '../fraction';
+
+function toStrings(fractions: Fraction[]) {
+  return fractions.map(f => f.toFraction());
+}
+
+describe('Tonality diamond', () => {
+  it('constructs the 5-limit diamond', () => {
+    expect(toStrings(tonalityDiamond(5))).toEqual([
+      '1',
+      '6/5',
+      '5/4',
+      '4/3',
+      '3/2',
+      '8/5',
+      '5/3',
+    ]);
+  });
+
+  it('can omit inversions', () => {
+    expect(toStrings(tonalityDiamond(5, false))).toEqual([
+      '1',
+      '5/4',
+      '3/2',
+      '5/3',
+    ]);
+  });
+
+  it('has the expected sizes', () => {
+    expect(tonalityDiamond(7)).toHaveLength(13);
+    expect(tonalityDiamond(9)).toHaveLength(19);
+  });
+});
+
+describe('Integer limit set', () => {
+  it('constructs the 4-integer-limit', () => {
+    expect(toStrings(integerLimitSet(4))).toEqual([
+      '1',
+      '4/3',
+      '3/2',
+      '2',
+      '3',
+      '4',
+    ]);
+  });
+});
+
+describe('Prime limit set', () => {
+  it('bounds by Tenney height', () => {
+    expect(toStrings(primeLimitSet(3, Math.log(24)))).toEqual([
+      '1',
+      '4/3',
+      '3/2',
+      '2',
+      '8/3',
+      '3',
+      '4',
+      '9/2',
+      '6',
+      '8',
+      '9',
+      '12',
+      '16',
+      '18',
+      '24',
+    ]);
+  });
+
+  it('bounds by Wilson height', () => {
+    const result = primeLimitSet(5, 10, 'wilson');
+    expect(toStrings(result)).toContain('6/5');
+    expect(toStrings(result)).toContain('32');
+    expect(toStrings(result)).not.toContain('9/8');
+    expect(result.every(f => f.compare(1) >= 0)).toBe(true);
+  });
+
+  it('contains only unison below the first prime', () => {
+    expect(toStrings(primeLimitSet(1, 10))).toEqual(['1']);
+  });
+});
+
+describe('Harmonic series segments', () => {
+  it('constructs a harmonic segment', () => {
+    expect(toStrings(harmonicSegment(4, 8))).toEqual([
+      '1',
+      '5/4',
+      '3/2',
+      '7/4',
+      '2',
+    ]);
+  });
+
+  it('constructs a subharmonic segment', () => {
+    expect(toStrings(subharmonicSegment(4, 8))).toEqual([
+      '1',
+      '8/7',
+      '4/3',
+      '8/5',
+      '2',
+    ]);
+  });
+
+  it('rejects invalid bounds', () => {
+    expect(() => harmonicSegment(8, 4)).toThrow(
+      'Segment bounds must be positive integers in order',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {describe, it, expect} from 'vitest';
+import {Lattice} from '../lattice';
+import {Fraction} from '../fraction';
+
+function toStrings(fractions: Fraction[]) {
+  return fractions.map(f => f.toFraction());
+}
+
+describe('Lattice', () => {
+  it('deduplicates nodes', () => {
+    const lattice = new Lattice(['1', '5/4', '10/8', '3/2']);
+    expect(lattice.subgroup.toString()).toBe('2.3.5');
+    expect(toStrings(lattice.nodes)).toEqual(['1', '5/4', '3/2']);
+    expect(lattice.indexOf('3/2')).toBe(2);
+    expect(lattice.indexOf('7/4')).toBe(-1);
+  });
+
+  it('identifies equaves if requested', () => {
+    const lattice = new Lattice(['1', '2', '5/4', '5/2', '3/2'], '2.3.5', true);
+    expect(toStrings(lattice.nodes)).toEqual(['1', '5/4', '3/2']);
+    expect(lattice.indexOf('3/4')).toBe(2);
+  });
+
+  it('finds neighbors along prime axes', () => {
+    const lattice = new Lattice(
+      ['1', '3/2', '5/4', '15/8', '9/8'],
+      '2.3.5',
+      true,
+    );
+    expect(toStrings(lattice.neighbors('1'))).toEqual(['3/2', '5/4']);
+    expect(toStrings(lattice.neighbors('15/8'))).toEqual(['5/4', '3/2']);
+    expect(lattice.edges()).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 4],
+      [1, 3],
+      [2, 3],
+    ]);
+    expect(() => lattice.neighbors('7/4')).toThrow('7/4 is not in the lattice');
+  });
+
+  it('finds shortest paths', () => {
+    const lattice = new Lattice(
+      ['1', '3/2', '9/8', '5/4', '45/32'],
+      '2.3.5',
+      true,
+    );
+    expect(toStrings(lattice.shortestPath('1', '45/32')!)).toEqual([
+      '1',
+      '3/2',
+      '9/8',
+      '45/32',
+    ]);
+    expect(lattice.shortestPath('5/4', '5/4')).toHaveLength(1);
+  });
+
+  it('reports disconnected intervals', () => {
+    const lattice = new Lattice(['1', '15/8'], '2.3.5');
+    expect(lattice.shortestPath('1', '15/8')).toBeUndefined();
+  });
+
+  it('measures distances', () => {
+    const lattice = new Lattice([], '2.3.5');
+    expect(lattice.distance('3/2', '5/4')).toBeCloseTo(Math.log(30));
+    expect(lattice.distance('3/2', '5/4', 'wilson')).toBe(10);
+    expect(lattice.distance('3/2', '5/4', 'weil')).toBeCloseTo(Math.log(6));
+    const equivalent = new Lattice([], '2.3.5', true);
+    expect(equivalent.distance('3/2', '5/4')).toBeCloseTo(Math.log(15));
+  });
+
+  it('enumerates intervals within a radius', () => {
+    const lattice = new Lattice([], '2.3.5', true);
+    expect(toStrings(lattice.within(1, Math.log(16)))).toEqual([
+      '1',
+      '1/3',
+      '3',
+      '1/5',
+      '5',
+      '1/9',
+      '9',
+      '3/5',
+      '5/3',
+      '1/15',
+      '15',
+    ]);
+  });
+
+  it('enumerates intervals within a radius around a root', () => {
+    const lattice = new Lattice([], '2.3.5');
+    const result = lattice.within('3/2', 5, 'wilson');
+    expect(toStrings(result).slice(0, 3)).toEqual(['3/2', '3/4', '3']);
+    expect(result.every(f => lattice.distance(f, '3/2', 'wilson') <= 5)).toBe(
+      true,
+    );
+    expect(lattice.within(1, Math.log(6), 'weil')).toHaveLength(23);
+  });
+
+  it('enumerates intervals within a radius of a non-prime subgroup', () => {
+    const lattice = new Lattice([], '2.5/3.7/3', true);
+    const expected: string[] = [];
+    for (let a = -8; a <= 8; ++a) {
+      for (let b = -8; b <= 8; ++b) {
+        const interval = new Fraction(5, 3)
+          .pow(a)!
+          .mul(new Fraction(7, 3).pow(b)!);
+        if (lattice.distance(interval, 1) <= Math.log(40)) {
+          expected.push(interval.toFraction());
+        }
+      }
+    }
+    const result = toStrings(lattice.within(1, Math.log(40)));
+    expect(result).toContain('7/5');
+    expect(result).toContain('5/7');
+    expect([...result].sort()).toEqual(expected.sort());
+  });
+});
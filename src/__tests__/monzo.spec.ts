@@ -62,7 +62,7 @@ describe('Monzo converter', () => {
       new Fraction(2)
         .pow(monzo[0])!
         .mul(3 ** monzo[1] * 7 ** monzo[3])
-        .equals('1029/1024')
+        .equals('1029/1024'),
     ).toBeTruthy();
   });
 
@@ -86,7 +86,7 @@ describe('Monzo converter', () => {
     expect(
       BigInt(2) ** BigInt(monzo[0]) *
         BigInt(3) ** BigInt(monzo[1]) *
-        BigInt(5) ** BigInt(monzo[2])
+        BigInt(5) ** BigInt(monzo[2]),
     ).toBe(BigInt('360000000000000000000000'));
   });
 
@@ -140,7 +140,7 @@ describe('Monzo converter', () => {
 
   it('refuses to factor a negative fraction', () => {
     expect(() => toMonzo('-1/2')).toThrow(
-      'Cannot convert fraction -1/2 to monzo'
+      'Cannot convert fraction -1/2 to monzo',
     );
   });
 });
@@ -157,7 +157,7 @@ describe('Fraction to monzo converter', () => {
         .pow(monzo[0])!
         .mul(3 ** monzo[1])
         .mul(5 ** monzo[2])
-        .equals(new Fraction(45, 32))
+        .equals(new Fraction(45, 32)),
     ).toBeTruthy();
   });
 
@@ -174,7 +174,7 @@ describe('Fraction to monzo converter', () => {
         .mul(3 ** monzo[1])
         .mul(5 ** monzo[2])
         .mul(residual)
-        .equals('12345/678')
+        .equals('12345/678'),
     ).toBeTruthy();
   });
 
@@ -200,7 +200,7 @@ describe('Fraction to monzo converter', () => {
   it('leaves a residue if everything cannot be converted', () => {
     const [monzo, residual] = toMonzoAndResidual(
       BigInt('123456789000000000000'),
-      3
+      3,
     );
     expect(residual).toBe(BigInt(13717421));
     expect(monzo).toHaveLength(3);
@@ -211,7 +211,7 @@ describe('Fraction to monzo converter', () => {
       BigInt(2) ** BigInt(monzo[0]) *
         BigInt(3) ** BigInt(monzo[1]) *
         BigInt(5) ** BigInt(monzo[2]) *
-        residual
+        residual,
     ).toBe(BigInt('123456789000000000000'));
   });
 
@@ -295,7 +295,7 @@ describe('Fraction to monzo converter', () => {
 describe('Monzo to fraction converter', () => {
   it('multiplies the prime components', () => {
     expect(
-      monzoToFraction([3, -2, -1]).equals(new Fraction(8, 45))
+      monzoToFraction([3, -2, -1]).equals(new Fraction(8, 45)),
     ).toBeTruthy();
   });
 });
@@ -303,7 +303,7 @@ describe('Monzo to fraction converter', () => {
 describe('Monzo to BigInt converter', () => {
   it('multiplies the prime components', () => {
     expect(monzoToBigInt([30, 20, 10])).toBe(
-      BigInt('36561584400629760000000000')
+      BigInt('36561584400629760000000000'),
     );
   });
 });
@@ -337,10 +337,10 @@ describe('Prime limit calculator', () => {
     const limit = primeLimit(
       new Fraction(
         Math.ceil(Math.random() * 10000),
-        Math.ceil(Math.random() * 10000)
+        Math.ceil(Math.random() * 10000),
       ),
       false,
-      97
+      97,
     );
     if (limit < Infinity) {
       expect(limit).toBeLessThanOrEqual(97);
@@ -384,6 +384,29 @@ describe('Prime limit calculator', () => {
   it('works just above the IEEE limit', () => {
     expect(primeLimit(2n ** 1025n)).toEqual(2);
   });
+
+  it('finds prime limits beyond the table when allowed', () => {
+    expect(primeLimit(1000003 * 7, false, Infinity)).toBe(1000003);
+    expect(primeLimit('1000003/1000033', false, 1e7)).toBe(1000033);
+    expect(primeLimit(1000003n * 7n, false, 2e6)).toBe(1000003);
+  });
+
+  it('respects the default limit of the table', () => {
+    expect(primeLimit(1000003)).toBe(Infinity);
+    expect(primeLimit(1000003, false, 1000000)).toBe(Infinity);
+  });
+
+  it('exceeds the limit with prime factors beyond the safe integer range', () => {
+    expect(primeLimit(2n ** 61n - 1n, false, 10000)).toBe(Infinity);
+    expect(primeLimit(3n * (2n ** 61n - 1n), true, 1e9)).toBe(Infinity);
+    expect(() => primeLimit(2n ** 61n - 1n, false, Infinity)).toThrow(
+      'Prime factors above 9007199254740991 cannot be represented.',
+    );
+  });
+
+  it('finds the ordinal of a prime beyond the table', () => {
+    expect(primeLimit(8009 * 3, true, 10000)).toBe(1008);
+  });
 });
 
 describe('Sparse monzos', () => {
@@ -427,21 +450,71 @@ describe('Sparse monzos', () => {
   });
 
   it('factorizes BigInts with small prime factors', () => {
-    const factors = primeFactorize(147808829414345923316083210206383297601n, 115292150460684697600000000000000000000n)
+    const factors = primeFactorize(
+      147808829414345923316083210206383297601n,
+      115292150460684697600000000000000000000n,
+    );
     expect(factors).toEqual(
       new Map([
         [2, -80],
         [3, 80],
         [5, -20],
-      ])
-    )
-  })
+      ]),
+    );
+  });
 
   it('gives up on RSA-260', () => {
     const rsa260 =
       22112825529529666435281085255026230927612089502470015394413748319128822941402001986512729726569746599085900330031400051170742204560859276357953757185954298838958709229238491006703034124620545784566413664540684214361293017694020846391065875914794251435144458199n;
     expect(() => primeFactorize(rsa260)).toThrow(
-      `Factorization not implemented for residuals above ${Number.MAX_SAFE_INTEGER}.`,
+      'Failed to find a factor of a 862-bit residual.',
+    );
+  });
+
+  it('factorizes a semiprime with a large 7-limit residual', () => {
+    expect(primeFactorize(94906249 * 94906247)).toEqual(
+      new Map([
+        [94906247, 1],
+        [94906249, 1],
+      ]),
+    );
+  });
+
+  it('factorizes a large prime', () => {
+    expect(primeFactorize(9007199254740881)).toEqual(
+      new Map([[9007199254740881, 1]]),
+    );
+  });
+
+  it('factorizes numbers above the safe integer range', () => {
+    expect(primeFactorize(-3 * 2 ** 60)).toEqual(
+      new Map([
+        [-1, 1],
+        [2, 60],
+        [3, 1],
+      ]),
+    );
+  });
+
+  it('factorizes BigInts with large prime factors', () => {
+    const factors = primeFactorize(
+      (2n ** 31n - 1n) ** 2n * 1000000007n * 4294967311n,
+      3n * 998244353n,
+    );
+    expect(factors).toEqual(
+      new Map([
+        [3, -1],
+        [2147483647, 2],
+        [1000000007, 1],
+        [4294967311, 1],
+        [998244353, -1],
+      ]),
+    );
+  });
+
+  it('refuses to represent prime factors above the safe integer range', () => {
+    expect(() => primeFactorize(3n * (2n ** 61n - 1n))).toThrow(
+      `Prime factors above ${Number.MAX_SAFE_INTEGER} cannot be represented.`,
     );
   });
 
@@ -529,7 +602,7 @@ describe('Fractional monzo methods', () => {
   it('test for equality between two monzos (equal)', () => {
     const yes = fractionalMonzosEqual(
       ['1/2', '7/9'],
-      [0.5, new Fraction(14, 18), 0]
+      [0.5, new Fraction(14, 18), 0],
     );
     expect(yes).toBe(true);
   });
@@ -537,7 +610,7 @@ describe('Fractional monzo methods', () => {
   it('test for equality between two monzos (not equal)', () => {
     const no = fractionalMonzosEqual(
       ['1/2', '7/9'],
-      [0.75, new Fraction(7, 9)]
+      [0.75, new Fraction(7, 9)],
     );
     expect(no).toBe(false);
   });
@@ -0,0 +1,143 @@
+import {describe, it, expect} from 'vitest';
+import {
+  classifyMos,
+  hardnessName,
+  mosChildren,
+  mosDescendants,
+  mosGeneratorRange,
+  mosModes,
+  mosParent,
+  mosPatternToString,
+  mosScale,
+  mosStepSizes,
+  mosWord,
+  parseMosPattern,
+} from '../mos';
+
+describe('MOS patterns', () => {
+  it('parses and formats patterns', () => {
+    const pattern = parseMosPattern('5L 2s');
+    expect(pattern).toEqual({numberOfLargeSteps: 5, numberOfSmallSteps: 2});
+    expect(mosPatternToString(pattern)).toBe('5L 2s');
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => parseMosPattern('5L')).toThrow("Invalid MOS pattern '5L'");
+    expect(() => parseMosPattern('0L 2s')).toThrow(
+      'Step counts must be positive integers',
+    );
+  });
+
+  it('produces the brightest mode', () => {
+    expect(mosWord('5L 2s')).toBe('LLLsLLs');
+    expect(mosWord('2L 5s')).toBe('LssLsss');
+    expect(mosWord('10L 4s')).toBe('LLLsLLsLLLsLLs');
+  });
+});
+
+describe('MOS modes', () => {
+  it('lists the diatonic modes with UDP notation', () => {
+    const modes = mosModes('5L 2s');
+    expect(modes.map(m => m.mode)).toEqual([
+      'LLLsLLs',
+      'LLsLLLs',
+      'LLsLLsL',
+      'LsLLLsL',
+      'LsLLsLL',
+      'sLLLsLL',
+      'sLLsLLL',
+    ]);
+    expect(modes.map(m => m.udp)).toEqual([
+      '6|0',
+      '5|1',
+      '4|2',
+      '3|3',
+      '2|4',
+      '1|5',
+      '0|6',
+    ]);
+  });
+
+  it('uses period counts for multi-period patterns', () => {
+    const modes = mosModes('10L 4s');
+    expect(modes).toHaveLength(7);
+    expect(modes[1].udp).toBe('10|2(2)');
+    expect(modes[1].mode).toBe('LLsLLLsLLsLLLs');
+  });
+});
+
+describe('MOS family tree', () => {
+  it('finds parents and children', () => {
+    expect(mosChildren('5L 2s').map(mosPatternToString)).toEqual([
+      '7L 5s',
+      '5L 7s',
+    ]);
+    expect(mosPatternToString(mosParent('5L 2s')!)).toBe('2L 3s');
+    expect(mosPatternToString(mosParent('2L 5s')!)).toBe('2L 3s');
+    expect(mosParent('1L 1s')).toBeUndefined();
+  });
+
+  it('enumerates descendants', () => {
+    expect(
+      mosDescendants('1L 1s', 2).map(generation =>
+        generation.map(mosPatternToString),
+      ),
+    ).toEqual([
+      ['1L 1s'],
+      ['2L 1s', '1L 2s'],
+      ['3L 2s', '2L 3s', '3L 1s', '1L 3s'],
+    ]);
+  });
+});
+
+describe('MOS scales', () => {
+  it('generates the major scale', () => {
+    expect(mosScale(700, 1200, 7, 1)).toEqual([
+      200, 400, 500, 700, 900, 1100, 1200,
+    ]);
+  });
+
+  it('rejects sizes that are not MOS', () => {
+    expect(() => mosScale(700, 1200, 6)).toThrow(
+      'Generator 700 does not produce a MOS of size 6',
+    );
+  });
+
+  it('classifies scales', () => {
+    expect(classifyMos([200, 400, 500, 700, 900, 1100, 1200])).toEqual({
+      numberOfLargeSteps: 5,
+      numberOfSmallSteps: 2,
+      word: 'LLsLLLs',
+      large: 200,
+      small: 100,
+    });
+    expect(classifyMos([200, 300, 400, 1200])).toBeUndefined();
+  });
+
+  it('calculates step sizes and hardness', () => {
+    const {large, small, ratio} = mosStepSizes(700, 1200, 7);
+    expect(large).toBeCloseTo(200);
+    expect(small).toBeCloseTo(100);
+    expect(hardnessName(ratio)).toBe('basic');
+    expect(hardnessName(1)).toBe('equalized');
+    expect(hardnessName(2.2)).toBe('minihard');
+    expect(hardnessName(1.2)).toBe('ultrasoft');
+    expect(hardnessName(Infinity)).toBe('collapsed');
+  });
+});
+
+describe('MOS generator ranges', () => {
+  it('finds the diatonic fifth range', () => {
+    const [low, high] = mosGeneratorRange('5L 2s');
+    expect(low).toBeCloseTo(685.714);
+    expect(high).toBeCloseTo(720);
+  });
+
+  it('finds ranges of other patterns', () => {
+    expect(mosGeneratorRange('5L 3s')).toEqual([450, 480]);
+    expect(mosGeneratorRange('1L 1s')).toEqual([600, 1200]);
+    const [low, high] = mosGeneratorRange('10L 4s');
+    expect(low).toBeCloseTo(342.857);
+    expect(high).toBeCloseTo(360);
+  });
+});
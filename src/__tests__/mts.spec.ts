@@ -0,0 +1,171 @@
+import {describe, it, expect} from 'vitest';
+import {
+  buildBulkTuningDump,
+  buildScaleOctaveTuning,
+  buildSingleNoteTuningChange,
+  mtsChecksum,
+  parseBulkTuningDump,
+  parseScaleOctaveTuning,
+  parseSingleNoteTuningChange,
+} from '../mts.js';
+import {mtof} from '../conversion.js';
+
+describe('MTS bulk tuning dump', () => {
+  it('builds a 12-TET dump', () => {
+    const frequencies = [...Array(128).keys()].map(mtof);
+    const message = buildBulkTuningDump(frequencies, '12-TET', 3, undefined, 0);
+    expect(message).toHaveLength(408);
+    expect([...message.subarray(0, 6)]).toEqual([
+      0xf0, 0x7e, 0x00, 0x08, 0x01, 0x03,
+    ]);
+    expect(String.fromCharCode(...message.subarray(6, 22))).toBe(
+      '12-TET          ',
+    );
+    expect([...message.subarray(22 + 3 * 69, 25 + 3 * 69)]).toEqual([69, 0, 0]);
+    expect(message[406]).toBe(mtsChecksum(message.subarray(1, 406)));
+    expect(message[407]).toBe(0xf7);
+  });
+
+  it('round-trips through the parser', () => {
+    const frequencies: (number | null)[] = [...Array(128).keys()].map(i =>
+      mtof(i + 0.3),
+    );
+    frequencies[5] = null;
+    const message = buildBulkTuningDump(frequencies, 'Shifted', 7, 2);
+    expect(message[4]).toBe(0x04);
+    expect(message[5]).toBe(2);
+    const dump = parseBulkTuningDump(message);
+    expect(dump.deviceId).toBe(0x7f);
+    expect(dump.bank).toBe(2);
+    expect(dump.program).toBe(7);
+    expect(dump.name).toBe('Shifted');
+    expect(dump.frequencies[5]).toBeNull();
+    expect(dump.frequencies[69]).toBeCloseTo(mtof(69.3), 2);
+  });
+
+  it('truncates long names and replaces non-ASCII characters', () => {
+    const frequencies = [...Array(128).keys()].map(mtof);
+    const message = buildBulkTuningDump(
+      frequencies,
+      'Bohlen–Pierce equal tempered',
+    );
+    expect(parseBulkTuningDump(message).name).toBe('Bohlen?Pierce eq');
+  });
+
+  it('detects checksum mismatch', () => {
+    const message = buildBulkTuningDump([...Array(128).keys()].map(mtof));
+    message[100] ^= 1;
+    expect(() => parseBulkTuningDump(message)).toThrow('Checksum mismatch');
+  });
+
+  it('validates arguments', () => {
+    expect(() => buildBulkTuningDump([440])).toThrow(
+      'Expected 128 frequencies',
+    );
+    expect(() =>
+      buildBulkTuningDump([...Array(128).keys()].map(mtof), '', 128),
+    ).toThrow('Program must be an integer between 0 and 127');
+  });
+});
+
+describe('MTS single note tuning change', () => {
+  it('builds a real-time message', () => {
+    const message = buildSingleNoteTuningChange([
+      {note: 69, frequency: 440},
+      {note: 70, frequency: null},
+    ]);
+    expect([...message]).toEqual([
+      0xf0, 0x7f, 0x7f, 0x08, 0x02, 0x00, 0x02, 69, 69, 0, 0, 70, 0x7f, 0x7f,
+      0x7f, 0xf7,
+    ]);
+  });
+
+  it('uses the bank form for non-real-time messages', () => {
+    const message = buildSingleNoteTuningChange(
+      [{note: 60, frequency: 256}],
+      5,
+      false,
+    );
+    expect([...message.subarray(0, 8)]).toEqual([
+      0xf0, 0x7e, 0x7f, 0x08, 0x07, 0x00, 0x05, 0x01,
+    ]);
+    const change = parseSingleNoteTuningChange(message);
+    expect(change.realTime).toBe(false);
+    expect(change.bank).toBe(0);
+    expect(change.program).toBe(5);
+    expect(change.changes[0].note).toBe(60);
+    expect(change.changes[0].frequency).toBeCloseTo(256, 3);
+  });
+
+  it('round-trips a real-time message with a bank', () => {
+    const message = buildSingleNoteTuningChange(
+      [{note: 0, frequency: 10}],
+      1,
+      true,
+      9,
+      3,
+    );
+    const change = parseSingleNoteTuningChange(message);
+    expect(change).toEqual({
+      deviceId: 3,
+      realTime: true,
+      bank: 9,
+      program: 1,
+      changes: [{note: 0, frequency: change.changes[0].frequency}],
+    });
+    expect(change.changes[0].frequency).toBeCloseTo(10, 3);
+  });
+
+  it('rejects malformed messages', () => {
+    const message = buildSingleNoteTuningChange([{note: 69, frequency: 440}]);
+    expect(() => parseSingleNoteTuningChange(message.subarray(1))).toThrow(
+      'Not a SysEx message',
+    );
+    expect(() => parseSingleNoteTuningChange(message.subarray(0, 10))).toThrow(
+      'Not a SysEx message',
+    );
+    expect(() => parseBulkTuningDump(message)).toThrow(
+      'Not a universal SysEx message of the expected variety',
+    );
+  });
+});
+
+describe('MTS scale/octave tuning', () => {
+  const meantone = [0, -24, -7, 10, -14, 3, -21, -3, -27, -10, 7, -17];
+
+  it('builds a 1-byte message for all channels', () => {
+    const message = buildScaleOctaveTuning(meantone);
+    expect([...message.subarray(0, 8)]).toEqual([
+      0xf0, 0x7e, 0x7f, 0x08, 0x08, 0x03, 0x7f, 0x7f,
+    ]);
+    expect(message[8]).toBe(0x40);
+    expect(message[9]).toBe(0x40 - 24);
+    expect(message).toHaveLength(21);
+    expect(parseScaleOctaveTuning(message).cents).toEqual(meantone);
+  });
+
+  it('builds a 2-byte message for selected channels', () => {
+    const cents = meantone.map(c => c + 0.5);
+    cents[0] = 150;
+    const message = buildScaleOctaveTuning(cents, [0, 9, 15], true, true, 1);
+    expect(message).toHaveLength(33);
+    expect([...message.subarray(5, 8)]).toEqual([0x02, 0x04, 0x01]);
+    // Out of range offsets are clamped.
+    expect([...message.subarray(8, 10)]).toEqual([0x7f, 0x7f]);
+    const tuning = parseScaleOctaveTuning(message);
+    expect(tuning.deviceId).toBe(1);
+    expect(tuning.realTime).toBe(true);
+    expect(tuning.twoByte).toBe(true);
+    expect(tuning.channels).toEqual([0, 9, 15]);
+    expect(tuning.cents[0]).toBeCloseTo(100, 1);
+    for (let i = 1; i < 12; ++i) {
+      expect(tuning.cents[i]).toBeCloseTo(cents[i], 1);
+    }
+  });
+
+  it('validates channels', () => {
+    expect(() => buildScaleOctaveTuning(meantone, [16])).toThrow(
+      'Channel must be an integer between 0 and 15',
+    );
+  });
+});
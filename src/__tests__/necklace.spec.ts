@@ -0,0 +1,103 @@
+import {describe, it, expect} from 'vitest';
+import {
+  bracelets,
+  hasMyhillsProperty,
+  isLyndon,
+  isMaximallyEven,
+  isRotation,
+  iterBracelets,
+  iterNecklaces,
+  leastRotationIndex,
+  necklaceForm,
+  necklaces,
+  numberOfModes,
+} from '../necklace';
+
+describe('Necklace generator', () => {
+  it('produces the binary necklaces of the diatonic content', () => {
+    expect(necklaces([5, 2]).map(n => n.join(''))).toEqual([
+      '0000011',
+      '0000101',
+      '0001001',
+    ]);
+  });
+
+  it('counts ternary necklaces', () => {
+    expect(necklaces([2, 2, 2])).toHaveLength(16);
+    expect(necklaces([3, 3, 3])).toHaveLength(188);
+  });
+
+  it('skips missing letters', () => {
+    expect(necklaces([0, 2, 1])).toEqual([[1, 1, 2]]);
+    expect(necklaces([])).toEqual([]);
+  });
+
+  it('returns the total from the iterator', () => {
+    const iterator = iterNecklaces([4, 2, 1]);
+    let result = iterator.next();
+    let count = 0;
+    while (!result.done) {
+      count++;
+      result = iterator.next();
+    }
+    expect(result.value).toBe(15);
+    expect(count).toBe(15);
+  });
+
+  it('rejects invalid counts', () => {
+    expect(() => necklaces([1.5])).toThrow(
+      'Letter counts must be non-negative integers',
+    );
+  });
+});
+
+describe('Bracelet generator', () => {
+  it('counts ternary bracelets', () => {
+    expect(bracelets([2, 2, 2])).toHaveLength(11);
+    expect([...iterBracelets([3, 3, 3])]).toHaveLength(94);
+  });
+
+  it('identifies reflections', () => {
+    expect(bracelets([3, 2, 1]).map(b => b.join(''))).not.toContain('000211');
+  });
+});
+
+describe('Rotations', () => {
+  it('finds the least rotation', () => {
+    expect(necklaceForm([1, 0, 0, 1, 0, 0, 0])).toEqual([0, 0, 0, 1, 0, 0, 1]);
+    expect(leastRotationIndex([2, 1, 2, 1, 1])).toBe(3);
+    expect(leastRotationIndex([])).toBe(0);
+  });
+
+  it('detects rotations', () => {
+    expect(isRotation([0, 0, 1, 0, 1], [1, 0, 0, 1, 0])).toBe(true);
+    expect(isRotation([0, 0, 1, 1, 0], [1, 0, 0, 1, 0])).toBe(false);
+    expect(isRotation([0, 1], [0, 1, 0])).toBe(false);
+  });
+
+  it('detects Lyndon words', () => {
+    expect(isLyndon([0, 0, 1])).toBe(true);
+    expect(isLyndon([0, 1, 0])).toBe(false);
+    expect(isLyndon([0, 1, 0, 1])).toBe(false);
+  });
+
+  it('counts modes', () => {
+    expect(numberOfModes([0, 0, 1, 0, 0, 0, 1])).toBe(7);
+    expect(numberOfModes([0, 1, 0, 1, 0, 1])).toBe(2);
+    expect(numberOfModes([1, 1, 1])).toBe(1);
+  });
+});
+
+describe('Scale properties', () => {
+  it('detects Myhill property', () => {
+    expect(hasMyhillsProperty([2, 2, 1, 2, 2, 2, 1])).toBe(true);
+    expect(hasMyhillsProperty([2, 2, 1, 2, 2, 1])).toBe(false);
+    expect(hasMyhillsProperty([2, 2, 2])).toBe(false);
+  });
+
+  it('detects maximal evenness', () => {
+    expect(isMaximallyEven([2, 2, 1, 2, 2, 2, 1])).toBe(true);
+    expect(isMaximallyEven([2, 2, 2, 1, 1, 2, 2])).toBe(false);
+    expect(isMaximallyEven([3, 3, 3, 3])).toBe(true);
+  });
+});
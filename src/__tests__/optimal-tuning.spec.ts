@@ -0,0 +1,97 @@
+import {describe, it, expect} from 'vitest';
+import {
+  cteTuning,
+  minimaxTuning,
+  poteTuning,
+  teTuning,
+  topTuning,
+} from '../optimal-tuning.js';
+import {Temperament} from '../temperament.js';
+
+const MEANTONE = [
+  [1, 0, -4],
+  [0, 1, 4],
+];
+
+function fifth(generators: number[]) {
+  return generators[1] - generators[0];
+}
+
+describe('Optimal tunings', () => {
+  it('computes the TE tuning of meantone', () => {
+    const {generators, tuningMap, errors} = teTuning(MEANTONE);
+    expect(generators[0]).toBeCloseTo(1201.397, 3);
+    expect(fifth(generators)).toBeCloseTo(697.049, 3);
+    expect(tuningMap[2]).toBeCloseTo(4 * generators[1] - 4 * generators[0]);
+    expect(errors[0]).toBeCloseTo(1.397, 3);
+  });
+
+  it('computes the POTE tuning of meantone', () => {
+    const {generators, errors} = poteTuning(MEANTONE);
+    expect(generators[0]).toBeCloseTo(1200);
+    expect(errors[0]).toBeCloseTo(0);
+    expect(fifth(generators)).toBeCloseTo(696.239, 3);
+  });
+
+  it('computes the CTE tuning of meantone', () => {
+    const {generators} = cteTuning(MEANTONE);
+    expect(generators[0]).toBeCloseTo(1200);
+    expect(fifth(generators)).toBeCloseTo(697.214, 3);
+  });
+
+  it('computes the TOP tuning of meantone', () => {
+    const {generators, errors} = topTuning(MEANTONE);
+    expect(generators[0]).toBeCloseTo(1201.699, 3);
+    expect(fifth(generators)).toBeCloseTo(697.564, 3);
+    // The weighted errors of all primes are equal in magnitude.
+    const weighted = errors.map(
+      (e, i) => Math.abs(e) / Math.log2([2, 3, 5][i]),
+    );
+    expect(weighted[1]).toBeCloseTo(weighted[0]);
+    expect(weighted[2]).toBeCloseTo(weighted[0]);
+  });
+
+  it('finds quarter-comma meantone as the 5-limit minimax tuning', () => {
+    const {generators} = minimaxTuning(MEANTONE, 5);
+    expect(generators[0]).toBe(1200);
+    expect(fifth(generators)).toBeCloseTo(696.578, 3);
+  });
+
+  it('tunes equal temperaments', () => {
+    const {generators, tuningMap} = cteTuning([[12, 19, 28]]);
+    expect(generators[0]).toBeCloseTo(100);
+    expect(tuningMap).toEqual([1200, 1900, 2800].map(x => expect.closeTo(x)));
+    expect(minimaxTuning([[12, 19, 28]], 9).generators[0]).toBeCloseTo(100);
+    expect(topTuning([[12, 19, 28]]).generators[0]).toBeCloseTo(99.806, 3);
+  });
+
+  it('returns the just tuning for a mapping of full rank', () => {
+    const identity = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ];
+    const just = [1200, 1901.955, 2786.314];
+    for (const tuning of [
+      teTuning(identity),
+      cteTuning(identity),
+      topTuning(identity),
+      minimaxTuning(identity, 5),
+      minimaxTuning(identity, 9),
+    ]) {
+      expect(tuning.generators).toEqual(just.map(x => expect.closeTo(x, 3)));
+      expect(tuning.errors).toEqual([0, 0, 0].map(x => expect.closeTo(x)));
+    }
+  });
+
+  it('works with temperaments on subgroups', () => {
+    const temperament = Temperament.fromCommas(['64/63'], '2.3.7');
+    const {generators, tuningMap} = cteTuning(temperament);
+    expect(tuningMap[0]).toBeCloseTo(1200);
+    expect(tuningMap).toHaveLength(3);
+    expect(generators).toHaveLength(2);
+    // 7/6 is in the 2.3.7 diamond but 5/4 isn't.
+    const minimax = minimaxTuning(temperament, 7);
+    expect(minimax.tuningMap[0]).toBeCloseTo(1200);
+  });
+});
@@ -1,5 +1,15 @@
 import {describe, it, expect} from 'vitest';
-import {PRIMES, isPrime, nthPrime, primeRange, primes} from '../primes.js';
+import {
+  PRIMES,
+  factorizeBigInt,
+  isPrime,
+  iterPrimes,
+  nthPrime,
+  pollardBrent,
+  primePi,
+  primeRange,
+  primes,
+} from '../primes.js';
 
 describe('Array of prime numbers', () => {
   it('has no gaps', () => {
@@ -53,6 +63,60 @@ describe('Primeness detector', () => {
   it('works for 62837303', () => {
     expect(isPrime(62837303)).toBe(true);
   });
+  it('works beyond 62837328', () => {
+    expect(isPrime(9007199254740881)).toBe(true);
+    expect(isPrime(9007199254740883)).toBe(false);
+  });
+  it('rejects strong pseudoprimes', () => {
+    expect(isPrime(3215031751)).toBe(false);
+    expect(isPrime(3825123056546413051n)).toBe(false);
+  });
+  it('works for BigInts', () => {
+    expect(isPrime(7n)).toBe(true);
+    expect(isPrime(1n)).toBe(false);
+    expect(isPrime(2n ** 89n - 1n)).toBe(true);
+    expect(isPrime(2n ** 89n + 1n)).toBe(false);
+  });
+});
+
+describe("Pollard's rho factorizer", () => {
+  it('finds a factor of a number', () => {
+    expect(pollardBrent(8051)).toBe(97);
+  });
+  it('finds a factor of a BigInt', () => {
+    expect(pollardBrent(10403n)).toBe(101n);
+  });
+  it('finds a factor of a large semiprime', () => {
+    const factor = pollardBrent(1000000007n * 4294967311n);
+    expect([1000000007n, 4294967311n]).toContain(factor);
+  });
+  it('returns primes unchanged', () => {
+    expect(pollardBrent(1000003)).toBe(1000003);
+  });
+});
+
+describe('BigInt factorizer', () => {
+  it('factorizes small numbers', () => {
+    expect(factorizeBigInt(360n)).toEqual([
+      [2n, 3],
+      [3n, 2],
+      [5n, 1],
+    ]);
+    expect(factorizeBigInt(1n)).toEqual([]);
+  });
+  it('finds prime factors beyond the safe integer range', () => {
+    const mersenne = 2n ** 61n - 1n;
+    expect(factorizeBigInt(1000000007n * 7919n ** 2n * mersenne)).toEqual([
+      [7919n, 2],
+      [1000000007n, 1],
+      [mersenne, 1],
+    ]);
+  });
+  it('rejects non-positive arguments', () => {
+    expect(() => factorizeBigInt(0n)).toThrow(
+      'Argument must be a positive integer',
+    );
+  });
 });
 
 describe('Lists of primes', () => {
@@ -140,13 +204,80 @@ describe('Prime range generator', () => {
 
   it('produces the larger primes', () => {
     expect(primeRange(1000, 1000 + LARGER_PRIMES.length)).toEqual(
-      LARGER_PRIMES
+      LARGER_PRIMES,
     );
   });
 
   it('produces the larger primes but one', () => {
     expect(primeRange(1001, 1000 + LARGER_PRIMES.length)).toEqual(
-      LARGER_PRIMES.slice(1)
+      LARGER_PRIMES.slice(1),
     );
   });
 });
+
+describe('Lazy prime iterator', () => {
+  it('starts from 2 by default', () => {
+    const primes = iterPrimes();
+    expect([...Array(5)].map(() => primes.next().value)).toEqual([
+      2, 3, 5, 7, 11,
+    ]);
+  });
+
+  it('continues past the table', () => {
+    const primes = iterPrimes(7919);
+    expect(
+      [...Array(LARGER_PRIMES.length + 1)].map(() => primes.next().value),
+    ).toEqual([7919, ...LARGER_PRIMES]);
+  });
+
+  it('starts from large values', () => {
+    const primes = iterPrimes(1e9);
+    expect(primes.next().value).toBe(1000000007);
+    expect(primes.next().value).toBe(1000000009);
+  });
+
+  it('agrees with the primality test', () => {
+    let last = 100000;
+    for (const prime of iterPrimes(100000)) {
+      if (prime > 110000) {
+        break;
+      }
+      for (let n = last + 1; n < prime; ++n) {
+        expect(isPrime(n)).toBe(false);
+      }
+      expect(isPrime(prime)).toBe(true);
+      last = prime;
+    }
+  });
+});
+
+describe('Prime counting function', () => {
+  it.each([
+    [1, 0],
+    [2, 1],
+    [100, 25],
+    [7919, 1000],
+    [7926, 1000],
+    [7927, 1001],
+    [1e6, 78498],
+    [1e7, 664579],
+  ])('counts the primes up to %s', (n, count) => {
+    expect(primePi(n)).toBe(count);
+  });
+});
+
+describe('Large prime generation', () => {
+  it('produces the first 100k primes', () => {
+    const result = primeRange(100000);
+    expect(result).toHaveLength(100000);
+    expect(result[99999]).toBe(1299709);
+    expect(nthPrime(99999)).toBe(1299709);
+  });
+
+  it('lists primes between large bounds', () => {
+    expect(primes(1e9, 1e9 + 100)).toEqual([
+      1000000007, 1000000009, 1000000021, 1000000033, 1000000087, 1000000093,
+      1000000097,
+    ]);
+  });
+});
@@ -0,0 +1,262 @@
+import {describe, it, expect} from 'vitest';
+import {
+  formatScalaPitch,
+  kbmFrequencyTable,
+  parseKbm,
+  parseScalaPitch,
+  parseScl,
+  scalaPitchToCents,
+  serializeKbm,
+  serializeScl,
+} from '../scala.js';
+import {Fraction} from '../fraction.js';
+import {mtof} from '../conversion.js';
+
+const MEANTONE = `! meanmt.scl
+!
+1/4-comma meantone scale. Pietro Aaron's temperament (1523)
+ 12
+!
+ 76.04900
+ 193.15686
+ 310.26471
+ 5/4
+ 503.42157
+ 579.47057
+ 696.57843
+ 25/16
+ 889.73529
+ 1006.84314
+ 1082.89214
+ 2/1
+`;
+
+describe('Scala pitch parser', () => {
+  it('parses cents', () => {
+    expect(parseScalaPitch(' 100.0')).toBe(100);
+    expect(parseScalaPitch('-5.')).toBe(-5);
+    expect(parseScalaPitch('.5 cents')).toBe(0.5);
+  });
+
+  it('parses ratios and integers', () => {
+    expect((parseScalaPitch('3/2 fifth') as Fraction).equals('3/2')).toBe(true);
+    expect((parseScalaPitch('2') as Fraction).equals(2)).toBe(true);
+  });
+
+  it('rejects invalid pitches', () => {
+    expect(() => parseScalaPitch('-3/2')).toThrow("Invalid pitch '-3/2'");
+    expect(() => parseScalaPitch('0/1')).toThrow("Invalid ratio '0/1'");
+    expect(() => parseScalaPitch('foo')).toThrow("Invalid pitch 'foo'");
+  });
+});
+
+describe('Scala .scl parser', () => {
+  it('parses quarter-comma meantone', () => {
+    const scale = parseScl(MEANTONE);
+    expect(scale.description).toBe(
+      "1/4-comma meantone scale. Pietro Aaron's temperament (1523)",
+    );
+    expect(scale.pitches).toHaveLength(12);
+    expect(scale.pitches[0]).toBe(76.049);
+    expect((scale.pitches[3] as Fraction).equals('5/4')).toBe(true);
+    expect(scalaPitchToCents(scale.pitches[11])).toBe(1200);
+  });
+
+  it('accepts an empty description and CRLF line endings', () => {
+    const scale = parseScl('!\r\n\r\n2\r\n700.0\r\n2/1\r\n');
+    expect(scale.description).toBe('');
+    expect(scale.pitches).toHaveLength(2);
+  });
+
+  it('reports the line number of invalid pitches', () => {
+    const text = '! test\nbad\n 2\n 3/2\n fifth\n';
+    expect(() => parseScl(text)).toThrow("Line 5: Invalid pitch 'fifth'");
+  });
+
+  it('reports invalid note counts', () => {
+    expect(() => parseScl('desc\nmany\n')).toThrow(
+      "Line 2: Invalid note count 'many'",
+    );
+  });
+
+  it('enforces the note count in strict mode', () => {
+    expect(() => parseScl('desc\n3\n3/2\n2/1\n')).toThrow(
+      'Expected 3 pitches but found only 2',
+    );
+    expect(() => parseScl('desc\n1\n3/2\n2/1\n')).toThrow(
+      'Line 4: Expected 1 pitches but found more',
+    );
+  });
+
+  it('tolerates deviations in lenient mode', () => {
+    const scale = parseScl('desc\n3\n3/2\n\nnonsense\n2/1\n', false);
+    expect(scale.pitches).toHaveLength(2);
+    expect(parseScl('desc\n1\n3/2\n2/1\n', false).pitches).toHaveLength(1);
+  });
+});
+
+describe('Scala .scl serializer', () => {
+  it('round-trips quarter-comma meantone', () => {
+    const scale = parseScl(MEANTONE);
+    const text = serializeScl(scale, 'meanmt.scl');
+    expect(text.startsWith('! meanmt.scl\n!\n1/4-comma')).toBe(true);
+    expect(parseScl(text)).toEqual(scale);
+  });
+
+  it('formats cents with a period', () => {
+    expect(formatScalaPitch(700)).toBe('700.0');
+    expect(formatScalaPitch(701.955)).toBe('701.955');
+    expect(formatScalaPitch(1e-7)).toBe('0.000000100000');
+    expect(formatScalaPitch(new Fraction(2))).toBe('2/1');
+  });
+
+  it('refuses to serialize negative ratios', () => {
+    expect(() =>
+      serializeScl({description: '', pitches: [new Fraction(-1)]}),
+    ).toThrow('Cannot represent ratio -1');
+  });
+});
+
+const WHITE_KEYS = `! whitekeys.kbm
+! Size of map:
+12
+! First MIDI note number to retune:
+0
+! Last MIDI note number to retune:
+127
+! Middle note where the first entry of the mapping is mapped to:
+60
+! Reference note for which frequency is given:
+69
+! Frequency to tune the above note to
+440.0
+! Scale degree to consider as formal octave:
+7
+! Mapping.
+0
+x
+1
+x
+2
+3
+x
+4
+x
+5
+x
+6
+`;
+
+describe('Scala .kbm parser', () => {
+  it('parses a white key mapping', () => {
+    const mapping = parseKbm(WHITE_KEYS);
+    expect(mapping.mapSize).toBe(12);
+    expect(mapping.middleNote).toBe(60);
+    expect(mapping.referenceFrequency).toBe(440);
+    expect(mapping.octaveDegree).toBe(7);
+    expect(mapping.mapping).toEqual([
+      0,
+      null,
+      1,
+      null,
+      2,
+      3,
+      null,
+      4,
+      null,
+      5,
+      null,
+      6,
+    ]);
+  });
+
+  it('reports invalid header lines', () => {
+    expect(() => parseKbm(WHITE_KEYS.replace('440.0', 'A4'))).toThrow(
+      "Line 13: Invalid frequency to tune the above note to 'A4'",
+    );
+    expect(() => parseKbm(WHITE_KEYS.replace('\n127\n', '\n128\n'))).toThrow(
+      'Line 7: Out of MIDI range: last midi note number to retune 128',
+    );
+    expect(() => parseKbm('0\n0\n127\n')).toThrow(
+      'Missing line: Middle note where the first entry of the mapping is mapped to',
+    );
+  });
+
+  it('rejects invalid mapping entries in strict mode only', () => {
+    const text = WHITE_KEYS.replace('\nx\n2\n', '\ny\n2\n');
+    expect(() => parseKbm(text)).toThrow("Line 20: Invalid mapping entry 'y'");
+    expect(parseKbm(text, false).mapping[3]).toBeNull();
+  });
+
+  it('rejects too many entries in strict mode only', () => {
+    const text = WHITE_KEYS + '7\n';
+    expect(() => parseKbm(text)).toThrow(
+      'Line 29: Expected 12 mapping entries but found more',
+    );
+    expect(parseKbm(text, false).mapping).toHaveLength(12);
+  });
+
+  it('round-trips through the serializer', () => {
+    const mapping = parseKbm(WHITE_KEYS);
+    expect(parseKbm(serializeKbm(mapping, 'whitekeys.kbm'))).toEqual(mapping);
+  });
+});
+
+describe('Keyboard mapped frequency table', () => {
+  it('reproduces 12-tone equal temperament with a linear mapping', () => {
+    const pitches = [...Array(12).keys()].map(i => 100 * (i + 1));
+    const table = kbmFrequencyTable(pitches, {
+      mapSize: 0,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 440,
+      octaveDegree: 0,
+      mapping: [],
+    });
+    expect(table).toHaveLength(128);
+    for (let i = 0; i < 128; ++i) {
+      expect(table[i]).toBeCloseTo(mtof(i), 8);
+    }
+  });
+
+  it('maps a just major scale to the white keys', () => {
+    const {pitches} = parseScl(
+      'Ptolemy\n7\n9/8\n5/4\n4/3\n3/2\n5/3\n15/8\n2/1\n',
+    );
+    const table = kbmFrequencyTable(pitches, parseKbm(WHITE_KEYS));
+    const c4 = (440 * 3) / 5;
+    expect(table[69]).toBeCloseTo(440);
+    expect(table[60]).toBeCloseTo(c4);
+    expect(table[67]).toBeCloseTo(c4 * 1.5);
+    expect(table[72]).toBeCloseTo(c4 * 2);
+    expect(table[48]).toBeCloseTo(c4 / 2);
+    // Unmapped keys retain their default tuning.
+    expect(table[61]).toBeCloseTo(mtof(61));
+  });
+
+  it('uses the formal octave degree', () => {
+    const mapping = {
+      mapSize: 1,
+      firstNote: 60,
+      lastNote: 62,
+      middleNote: 60,
+      referenceNote: 60,
+      referenceFrequency: 100,
+      octaveDegree: 2,
+      mapping: [0],
+    };
+    const table = kbmFrequencyTable([new Fraction(5, 4), 1200], mapping);
+    expect(table[61]).toBeCloseTo(200);
+    expect(table[62]).toBeCloseTo(400);
+    expect(table[63]).toBeCloseTo(mtof(63));
+  });
+
+  it('throws if the reference note is unmapped', () => {
+    const mapping = {...parseKbm(WHITE_KEYS), referenceNote: 70};
+    expect(() => kbmFrequencyTable([1200], mapping)).toThrow(
+      'Reference note is unmapped',
+    );
+  });
+});
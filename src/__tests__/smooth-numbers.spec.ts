@@ -0,0 +1,124 @@
+import {describe, it, expect} from 'vitest';
+import {
+  iterSmoothMonzos,
+  iterSmoothNumbers,
+  iterSmoothRatios,
+  smoothNumbers,
+  smoothRatios,
+} from '../smooth-numbers.js';
+import {primeLimit, primeFactorize} from '../monzo.js';
+import {primeRange} from '../primes.js';
+import {tenneyHeight} from '../core.js';
+
+describe('Smooth numbers', () => {
+  it('produces the 5-smooth numbers up to 12', () => {
+    expect(smoothNumbers([2, 3, 5], 12)).toEqual([
+      1, 2, 3, 4, 5, 6, 8, 9, 10, 12,
+    ]);
+  });
+
+  it('produces the 7-smooth numbers up to a million', () => {
+    const result = smoothNumbers(primeRange(4), 1e6);
+    expect(result).toHaveLength(1273);
+    expect(result[result.length - 1]).toBe(1e6);
+    for (let i = 1; i < result.length; ++i) {
+      expect(result[i]).toBeGreaterThan(result[i - 1]);
+    }
+  });
+
+  it('agrees with the prime limit', () => {
+    const expected: number[] = [];
+    for (let n = 100; n <= 1000; ++n) {
+      if (primeLimit(n) <= 7) {
+        expected.push(n);
+      }
+    }
+    expect(smoothNumbers(primeRange(4), 1000, 100)).toEqual(expected);
+  });
+
+  it('supports arbitrary prime lists', () => {
+    expect(smoothNumbers([3, 7], 50)).toEqual([1, 3, 7, 9, 21, 27, 49]);
+  });
+
+  it('generates without an upper bound', () => {
+    const numbers = iterSmoothNumbers([2, 3]);
+    expect([...Array(8)].map(() => numbers.next().value)).toEqual([
+      1, 2, 3, 4, 6, 8, 9, 12,
+    ]);
+  });
+
+  it('rejects invalid primes', () => {
+    expect(() => smoothNumbers([1, 2], 10)).toThrow(
+      'Primes must be integers greater than 1',
+    );
+  });
+});
+
+describe('Smooth monzos', () => {
+  it('produces the exponents of 3-smooth numbers', () => {
+    expect([...iterSmoothMonzos([2, 3], 6)]).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [2, 0],
+      [1, 1],
+    ]);
+  });
+
+  it('uses exponents over the given primes', () => {
+    expect([...iterSmoothMonzos([5, 11], 60, 50)]).toEqual([[1, 1]]);
+  });
+});
+
+describe('Smooth ratios', () => {
+  it('produces 5-limit ratios within the octave', () => {
+    expect(
+      smoothRatios([2, 3, 5], Math.log(20)).map(f => f.toFraction()),
+    ).toEqual(['1', '2', '3/2', '4/3', '5/3', '5/4']);
+  });
+
+  it('produces 11-limit ratios bounded by Tenney height', () => {
+    const maxHeight = Math.log(10000);
+    const ratios = smoothRatios(primeRange(5), maxHeight);
+    for (const ratio of ratios) {
+      expect(ratio.compare(1)).toBeGreaterThanOrEqual(0);
+      expect(ratio.compare(2)).toBeLessThanOrEqual(0);
+      expect(tenneyHeight(ratio)).toBeLessThanOrEqual(maxHeight + 1e-9);
+      expect(primeLimit(ratio)).toBeLessThanOrEqual(11);
+    }
+    const keys = new Set(ratios.map(f => f.toFraction()));
+    expect(keys.size).toBe(ratios.length);
+    expect(keys.has('100/99')).toBe(true);
+    expect(keys.has('121/120')).toBe(false);
+    expect(keys.has('81/80')).toBe(true);
+    expect(keys.has('11/10')).toBe(true);
+  });
+
+  it('orders by Tenney height', () => {
+    let last = 0;
+    for (const ratio of iterSmoothRatios([2, 3, 5, 7], Math.log(1000))) {
+      const height = tenneyHeight(ratio);
+      expect(height).toBeGreaterThanOrEqual(last);
+      last = height;
+    }
+  });
+
+  it('supports custom ranges', () => {
+    const ratios = smoothRatios([2, 3], Math.log(100), '1/2', 1);
+    expect(ratios.map(f => f.toFraction())).toEqual([
+      '1',
+      '1/2',
+      '2/3',
+      '3/4',
+      '8/9',
+    ]);
+  });
+
+  it('produces the factorizable ratios', () => {
+    for (const ratio of smoothRatios([3, 5, 7], Math.log(5000), 0, 1000)) {
+      for (const prime of primeFactorize(ratio).keys()) {
+        expect([3, 5, 7]).toContain(prime);
+      }
+    }
+  });
+});
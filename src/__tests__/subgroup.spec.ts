@@ -0,0 +1,95 @@
+import {describe, it, expect} from 'vitest';
+import {Subgroup} from '../subgroup.js';
+import {Fraction} from '../fraction.js';
+
+describe('Subgroup', () => {
+  it('parses dotted notation', () => {
+    const subgroup = new Subgroup('2.5/3.7/3');
+    expect(subgroup.basis.map(b => b.toFraction())).toEqual([
+      '2',
+      '5/3',
+      '7/3',
+    ]);
+    expect(subgroup.numberOfComponents).toBe(4);
+    expect(subgroup.basisMonzos).toEqual([
+      [1, 0, 0, 0],
+      [0, -1, 1, 0],
+      [0, -1, 0, 1],
+    ]);
+    expect(subgroup.toString()).toBe('2.5/3.7/3');
+    expect(subgroup.isPrimeBasis()).toBe(false);
+  });
+
+  it('constructs prime limits', () => {
+    const subgroup = Subgroup.fromPrimeLimit(11);
+    expect(subgroup.toString()).toBe('2.3.5.7.11');
+    expect(subgroup.isPrimeBasis()).toBe(true);
+  });
+
+  it('constructs the prime limit of intervals', () => {
+    expect(Subgroup.fromIntervals(['5/4', '3/2']).toString()).toBe('2.3.5');
+    expect(Subgroup.fromIntervals([[-4, 4, -1], '7/6']).toString()).toBe(
+      '2.3.5.7',
+    );
+    expect(Subgroup.fromIntervals([]).toString()).toBe('2');
+  });
+
+  it('rejects invalid bases', () => {
+    expect(() => new Subgroup('2.x')).toThrow(
+      "Invalid subgroup basis element 'x'",
+    );
+    expect(() => new Subgroup('2.1')).toThrow(
+      "Invalid subgroup basis element '1'",
+    );
+    expect(() => new Subgroup('2.3.9')).toThrow(
+      'Subgroup basis is not linearly independent',
+    );
+  });
+
+  it('maps fractions to subgroup coordinates and back', () => {
+    const subgroup = new Subgroup('2.3.7');
+    expect(subgroup.toMonzo('7/6')).toEqual([-1, -1, 1]);
+    expect(subgroup.toFraction([-1, -1, 1]).toFraction()).toBe('7/6');
+    expect(subgroup.toPrimeMonzo([-1, -1, 1])).toEqual([-1, -1, 0, 1]);
+    expect(subgroup.toCents([1, 0, 0])).toBeCloseTo(1200);
+    expect(subgroup.toCents([6, -2, -1])).toBeCloseTo(27.264);
+  });
+
+  it('handles fractional basis elements', () => {
+    const subgroup = new Subgroup('2.5/3.7/3');
+    expect(subgroup.toMonzo('7/5')).toEqual([0, -1, 1]);
+    expect(subgroup.toMonzo('35/18')).toEqual([-1, 1, 1]);
+    expect(subgroup.fromPrimeMonzo([-1, -2, 1, 1])).toEqual([-1, 1, 1]);
+  });
+
+  it('handles composite basis elements', () => {
+    const subgroup = new Subgroup([2, 9, 21]);
+    expect(subgroup.toMonzo('21/16')).toEqual([-4, 0, 1]);
+    expect(subgroup.toMonzo('81/64')).toEqual([-6, 2, 0]);
+    expect(subgroup.contains('3/2')).toBe(false);
+  });
+
+  it('separates residuals outside the subgroup', () => {
+    const subgroup = new Subgroup('2.3.7');
+    const [monzo, residual] = subgroup.toMonzoAndResidual('55/42');
+    expect(monzo).toEqual([-1, -1, -1]);
+    expect(residual.equals(55)).toBe(true);
+    const [monzo9, residual9] = new Subgroup('2.9').toMonzoAndResidual(
+      new Fraction(1, 3),
+    );
+    expect(
+      residual9.mul(new Subgroup('2.9').toFraction(monzo9)).toFraction(),
+    ).toBe('1/3');
+  });
+
+  it('throws on values outside the subgroup', () => {
+    const subgroup = new Subgroup('2.3.7');
+    expect(() => subgroup.toMonzo('5/4')).toThrow(
+      '5/4 is outside the subgroup 2.3.7',
+    );
+    expect(() => subgroup.fromPrimeMonzo([0, 0, 1])).toThrow(
+      'Monzo [0, 0, 1> is outside the subgroup 2.3.7',
+    );
+    expect(subgroup.contains('49/48')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import {describe, it, expect} from 'vitest';
+import {
+  commaCandidates,
+  findTemperamentsFromCommas,
+  findTemperamentsFromVals,
+  temperamentBadness,
+} from '../temperament-search';
+import {Temperament} from '../temperament';
+
+describe('Temperament badness', () => {
+  it('measures meantone', () => {
+    const {complexity, error, badness} = temperamentBadness(
+      Temperament.fromCommas(['81/80']),
+    );
+    expect(complexity).toBeCloseTo(1.23115);
+    expect(error).toBeCloseTo(1.58222);
+    expect(badness).toBeCloseTo(2.95253);
+  });
+
+  it('supports simple badness', () => {
+    const {complexity, error, badness} = temperamentBadness(
+      Temperament.fromCommas(['81/80']),
+      'simple',
+    );
+    expect(badness).toBeCloseTo(complexity * error);
+  });
+
+  it('rejects just intonation', () => {
+    expect(() =>
+      temperamentBadness(
+        new Temperament([
+          [1, 0],
+          [0, 1],
+        ]),
+      ),
+    ).toThrow('Temperament must temper out at least one comma');
+  });
+});
+
+describe('Comma candidates', () => {
+  it('lists small 5-limit commas', () => {
+    expect(commaCandidates(5, 4).map(c => c.toFraction())).toEqual([
+      '2048/2025',
+      '81/80',
+      '128/125',
+    ]);
+  });
+});
+
+describe('Temperament search', () => {
+  it('finds schismic and meantone from 5-limit edos', () => {
+    const results = findTemperamentsFromVals('2.3.5', 53, {maxResults: 3});
+    expect(results.map(r => r.temperament.mapping)).toEqual([
+      [
+        [1, 0, 15],
+        [0, 1, -8],
+      ],
+      [
+        [1, 0, -4],
+        [0, 1, 4],
+      ],
+      [
+        [1, 1, 2],
+        [0, 2, 1],
+      ],
+    ]);
+    expect(results[0].badness).toBeLessThan(results[1].badness);
+  });
+
+  it('deduplicates temperaments', () => {
+    const results = findTemperamentsFromVals('2.3.5', 31);
+    const keys = results.map(r => JSON.stringify(r.temperament.mapping));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('finds rank-3 temperaments', () => {
+    const [best] = findTemperamentsFromVals('2.3.5.7', 31, {
+      rank: 3,
+      metric: 'cangwu',
+      maxResults: 1,
+    });
+    expect(best.temperament.rank).toBe(3);
+    expect(best.temperament.tempersOut('225/224')).toBe(true);
+  });
+
+  it('finds temperaments from commas', () => {
+    const results = findTemperamentsFromCommas(commaCandidates(5, 4), '2.3.5');
+    expect(results).toHaveLength(3);
+    expect(results[0].temperament.tempersOut('81/80')).toBe(true);
+  });
+
+  it('defaults to the prime limit of the commas', () => {
+    const results = findTemperamentsFromCommas(commaCandidates(5, 4));
+    expect(results).toHaveLength(3);
+    expect(results[0].temperament.subgroup.toString()).toBe('2.3.5');
+    expect(results[0].temperament.tempersOut('81/80')).toBe(true);
+  });
+
+  it('rejects invalid ranks', () => {
+    expect(() => findTemperamentsFromVals('2.3.5', 12, {rank: 3})).toThrow(
+      'Rank must be an integer between 1 and 2',
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import {describe, it, expect} from 'vitest';
+import {Temperament} from '../temperament.js';
+
+describe('Temperament', () => {
+  it('joins patent vals', () => {
+    const meantone = Temperament.fromVals('12p & 19p', '2.3.5.7');
+    expect(meantone.mapping).toEqual([
+      [1, 0, -4, -13],
+      [0, 1, 4, 10],
+    ]);
+    expect(meantone.rank).toBe(2);
+    expect(meantone.dimension).toBe(4);
+    expect(meantone.nullity).toBe(2);
+    expect(
+      meantone
+        .commaBasis()
+        .map(comma => meantone.subgroup.toFraction(comma).toFraction()),
+    ).toEqual(['126/125', '81/80']);
+    expect(
+      meantone
+        .generators()
+        .map(generator => meantone.subgroup.toFraction(generator).toFraction()),
+    ).toEqual(['2', '3']);
+  });
+
+  it('can be constructed from commas', () => {
+    const meantone = Temperament.fromCommas(['81/80', '126/125']);
+    expect(meantone.subgroup.toString()).toBe('2.3.5.7');
+    expect(meantone.equals(Temperament.fromVals('12 & 19', '2.3.5.7'))).toBe(
+      true,
+    );
+    expect(meantone.tempersOut('225/224')).toBe(true);
+    expect(meantone.tempersOut('64/63')).toBe(false);
+  });
+
+  it('canonicalizes and defactors mappings', () => {
+    const temperament = new Temperament([
+      [2, 0, -8],
+      [0, 1, 4],
+      [12, 19, 28],
+    ]);
+    expect(temperament.subgroup.toString()).toBe('2.3.5');
+    expect(temperament.mapping).toEqual([
+      [1, 0, -4],
+      [0, 1, 4],
+    ]);
+  });
+
+  it('supports subgroups with composite basis elements', () => {
+    const temperament = Temperament.fromCommas(['50/49'], '2.5/3.7/3');
+    expect(temperament.mapping).toEqual([
+      [2, 0, 1],
+      [0, 1, 1],
+    ]);
+    expect(temperament.steps('7/5')).toEqual([1, 0]);
+    expect(temperament.steps([1, 1, 0])).toEqual([2, 1]);
+    expect(() => temperament.steps('3/2')).toThrow(
+      '3/2 is outside the subgroup 2.5/3.7/3',
+    );
+  });
+
+  it('maps intervals to generator steps', () => {
+    const superpyth = Temperament.fromCommas(['64/63'], '2.3.7');
+    expect(superpyth.steps('7/4')).toEqual([4, -2]);
+    expect(superpyth.steps('3/2')).toEqual([-1, 1]);
+  });
+
+  it('handles equal temperaments', () => {
+    const et = Temperament.fromVals('12', '2.3.5');
+    expect(et.rank).toBe(1);
+    expect(et.commaBasis()).toHaveLength(2);
+    for (const comma of et.commaBasis()) {
+      expect(et.tempersOut(comma)).toBe(true);
+      expect(et.subgroup.toCents(comma)).toBeGreaterThan(0);
+    }
+    expect(et.steps(et.generators()[0])).toEqual([1]);
+  });
+
+  it('validates input', () => {
+    expect(() => Temperament.fromVals('12q', '2.3.5')).toThrow(
+      "Invalid val '12q'",
+    );
+    expect(() => new Temperament([[0, 0, 0]])).toThrow(
+      'Temperament must have rank at least one',
+    );
+    expect(() => new Temperament([[12, 19, 28, 34]], '2.3.5')).toThrow(
+      'Mapping has 4 columns but the subgroup 2.3.5 has only 3 basis elements',
+    );
+    expect(() => Temperament.fromCommas(['2', '3'])).toThrow(
+      'The commas temper out the whole subgroup',
+    );
+  });
+});
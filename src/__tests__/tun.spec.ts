@@ -0,0 +1,136 @@
+import {describe, it, expect} from 'vitest';
+import {
+  TUN_BASE_FREQUENCY,
+  frequencyTableToTun,
+  parseTun,
+  serializeTun,
+  tunFrequencyTable,
+} from '../tun.js';
+import {kbmFrequencyTable, parseScl} from '../scala.js';
+import {mtof} from '../conversion.js';
+import {Fraction} from '../fraction.js';
+
+describe('AnaMark .tun parser', () => {
+  it('defaults to 12-tone equal temperament', () => {
+    const tuning = parseTun('');
+    expect(tuning.name).toBe('');
+    expect(tuning.baseFrequency).toBe(TUN_BASE_FREQUENCY);
+    const frequencies = tunFrequencyTable(tuning);
+    expect(frequencies).toHaveLength(128);
+    for (let i = 0; i < 128; ++i) {
+      expect(frequencies[i]).toBeCloseTo(mtof(i), 8);
+    }
+  });
+
+  it('parses a version 1 file', () => {
+    const text = [
+      '; Version 1 file',
+      '[Tuning]',
+      'note 69=6850',
+      'note 70=7000',
+      '',
+      '[Exact Tuning]',
+      'BaseFreq=10',
+      'note 70=6950.5',
+    ].join('\r\n');
+    const tuning = parseTun(text);
+    expect(tuning.baseFrequency).toBe(10);
+    const frequencies = tunFrequencyTable(tuning);
+    expect(frequencies[0]).toBeCloseTo(TUN_BASE_FREQUENCY);
+    expect(frequencies[69]).toBeCloseTo(mtof(68.5));
+    expect(frequencies[70]).toBeCloseTo(10 * Math.pow(2, 6950.5 / 1200));
+  });
+
+  it('parses functional tuning', () => {
+    const text = `[Scale Begin]
+Format = "AnaMark-TUN"
+FormatVersion = 200
+
+[Info]
+Name = "Pythagorean fifths"
+
+[Functional Tuning]
+note 60="!261.6"
+note 61="#>-1 % 701.955 ~63"
+note 70="#=60 % -1200"
+
+[Scale End]
+[Tuning]
+note 0=9999
+`;
+    const tuning = parseTun(text);
+    expect(tuning.name).toBe('Pythagorean fifths');
+    const frequencies = tunFrequencyTable(tuning);
+    expect(frequencies[0]).toBeCloseTo(mtof(0));
+    expect(frequencies[60]).toBeCloseTo(261.6);
+    expect(frequencies[61]).toBeCloseTo(261.6 * 1.5, 2);
+    expect(frequencies[63]).toBeCloseTo(261.6 * 1.5 ** 3, 1);
+    expect(frequencies[64]).toBeCloseTo(mtof(64));
+    expect(frequencies[70]).toBeCloseTo(130.8);
+  });
+
+  it('detects circular references', () => {
+    const text = '[Functional Tuning]\nnote 1="#=2"\nnote 2="#>-1"\n';
+    expect(() => parseTun(text)).toThrow('Circular reference at note 1');
+  });
+
+  it('reports invalid lines in strict mode only', () => {
+    const text = '[Tuning]\nnote 1=1.5\nnote 2=250\nnonsense\n';
+    expect(() => parseTun(text)).toThrow("Line 2: Invalid cents '1.5'");
+    expect(() => parseTun('[Tuning]\nnote 128=0\n')).toThrow(
+      'Line 2: Out of MIDI range: note 128',
+    );
+    expect(() => parseTun('[Scale Begin]\nFormat = "Other"\n')).toThrow(
+      "Line 2: Unknown format 'Other'",
+    );
+    const tuning = parseTun(text, false);
+    expect(tuning.cents[1]).toBe(100);
+    expect(tuning.cents[2]).toBe(250);
+  });
+});
+
+describe('AnaMark .tun serializer', () => {
+  it('round-trips through both versions', () => {
+    const tuning = frequencyTableToTun(
+      [...Array(128).keys()].map(i => mtof(i * 0.98)),
+      'Compressed',
+      440,
+    );
+    for (const version of [1, 2] as const) {
+      const text = serializeTun(tuning, version);
+      expect(text.includes('[Functional Tuning]')).toBe(version === 2);
+      const parsed = parseTun(text);
+      expect(parsed.name).toBe('Compressed');
+      expect(parsed.baseFrequency).toBe(440);
+      for (let i = 0; i < 128; ++i) {
+        expect(parsed.cents[i]).toBeCloseTo(tuning.cents[i], 6);
+      }
+    }
+  });
+
+  it('writes rounded cents relative to the default base frequency', () => {
+    const tuning = frequencyTableToTun([...Array(128).keys()].map(mtof));
+    const text = serializeTun(tuning, 1);
+    expect(text).toContain('\nnote 69=6900\n');
+    expect(text).toContain('\nnote 69=6900.0000000000\n');
+    expect(text.startsWith('[Info]')).toBe(true);
+  });
+
+  it('converts a Scala scale to a .tun file', () => {
+    const {pitches} = parseScl('Just\n2\n3/2\n2/1\n');
+    const frequencies = kbmFrequencyTable(pitches, {
+      mapSize: 0,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 60,
+      referenceFrequency: 200,
+      octaveDegree: 0,
+      mapping: [],
+    });
+    const text = serializeTun(frequencyTableToTun(frequencies, 'Just'));
+    const table = tunFrequencyTable(parseTun(text));
+    expect(table[61]).toBeCloseTo(new Fraction(3, 2).valueOf() * 200);
+    expect(table[62]).toBeCloseTo(400);
+  });
+});
@@ -0,0 +1,111 @@
+import {describe, it, expect} from 'vitest';
+import {
+  generalizedPatentVals,
+  parseVal,
+  patentVal,
+  teComplexity,
+  teError,
+  valErrors,
+  valToWarts,
+  valsWithinError,
+  wartedVal,
+} from '../val.js';
+import {Subgroup} from '../subgroup.js';
+import {Temperament} from '../temperament.js';
+
+describe('Patent vals', () => {
+  it('maps primes to the closest number of steps', () => {
+    expect(patentVal(12, 4)).toEqual([12, 19, 28, 34]);
+    expect(patentVal(17, 3)).toEqual([17, 27, 39]);
+  });
+
+  it('supports non-integer divisions', () => {
+    expect(patentVal(12.5, 3)).toEqual([13, 20, 29]);
+  });
+
+  it('maps subgroup basis elements', () => {
+    const subgroup = new Subgroup('3.5.7');
+    expect(patentVal(13, subgroup)).toEqual([13, 19, 23]);
+  });
+});
+
+describe('Wart notation', () => {
+  it('parses warts', () => {
+    expect(wartedVal(17, 'c', 3)).toEqual([17, 27, 40]);
+    expect(parseVal('17c', 3)).toEqual([17, 27, 40]);
+    expect(parseVal('12p', 4)).toEqual([12, 19, 28, 34]);
+    expect(parseVal('12', 4)).toEqual([12, 19, 28, 34]);
+    // Third best approximation of 5 in 17-EDO.
+    expect(parseVal('17cc', 3)).toEqual([17, 27, 38]);
+    expect(parseVal('12A', 2)).toEqual([13, 19]);
+  });
+
+  it('rejects invalid vals', () => {
+    expect(() => parseVal('12x', 3)).toThrow("Invalid val '12x'");
+    expect(() => parseVal('twelve', 3)).toThrow("Invalid val 'twelve'");
+  });
+
+  it('emits warts', () => {
+    expect(valToWarts([17, 27, 40])).toBe('17c');
+    expect(valToWarts([17, 27, 38])).toBe('17cc');
+    expect(valToWarts([12, 19, 28, 34])).toBe('12p');
+    expect(valToWarts([13, 19], undefined, 12)).toBe('12a');
+  });
+
+  it('round-trips', () => {
+    for (const notation of ['22p', '15bc', '24d', '7bbd', '9ccdd']) {
+      expect(valToWarts(parseVal(notation, 4))).toBe(notation);
+    }
+  });
+
+  it('can be used to construct temperaments', () => {
+    const temperament = Temperament.fromVals('5 & 17c', '2.3.5');
+    expect(temperament.tempersOut('81/80')).toBe(true);
+  });
+});
+
+describe('Generalized patent vals', () => {
+  it('enumerates the vals around 12 divisions', () => {
+    const vals = generalizedPatentVals(11.5, 12.5, 3);
+    expect(vals).toEqual([
+      [12, 18, 27],
+      [12, 19, 27],
+      [12, 19, 28],
+      [12, 19, 29],
+      [12, 20, 29],
+    ]);
+  });
+
+  it('contains the patent vals of integers', () => {
+    const vals = generalizedPatentVals(5, 31, 4).map(val => val.join(','));
+    for (let n = 5; n <= 31; ++n) {
+      expect(vals).toContain(patentVal(n, 4).join(','));
+    }
+  });
+});
+
+describe('Vals within an error bound', () => {
+  it('finds all vals of 12-EDO within 50 cents per prime', () => {
+    expect(valsWithinError(12, 50, 3)).toEqual([[12, 19, 28]]);
+    expect(valsWithinError(12, 90, 3)).toEqual([
+      [12, 19, 27],
+      [12, 19, 28],
+    ]);
+  });
+});
+
+describe('Val errors and complexity', () => {
+  it('computes per-prime errors with pure octaves', () => {
+    const errors = valErrors([12, 19, 28]);
+    expect(errors[0]).toBe(0);
+    expect(errors[1]).toBeCloseTo(-1.955, 3);
+    expect(errors[2]).toBeCloseTo(13.686, 3);
+  });
+
+  it('computes TE error and complexity', () => {
+    expect(teComplexity([12, 19, 28])).toBeCloseTo(12.0156, 3);
+    expect(teError([12, 19, 28])).toBeCloseTo(3.106, 3);
+    expect(teError([12, 19, 28])).toBeLessThan(teError([12, 19, 27]));
+    expect(teError([53, 84, 123])).toBeLessThan(teError([12, 19, 28]));
+  });
+});
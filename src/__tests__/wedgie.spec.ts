@@ -0,0 +1,160 @@
+import {describe, it, expect} from 'vitest';
+import {
+  commaWedgie,
+  hodgeDual,
+  multivalToMapping,
+  normalizeWedgie,
+  wedge,
+  wedgie,
+  wedgieBadness,
+  wedgieComplexity,
+} from '../wedgie';
+import {teComplexity} from '../val';
+import {Temperament} from '../temperament';
+
+describe('Wedge product', () => {
+  it('calculates the minors of two 5-limit vals', () => {
+    const result = wedge([
+      [12, 19, 28],
+      [19, 30, 44],
+    ]);
+    expect(result.grade).toBe(2);
+    expect(result.dimension).toBe(3);
+    expect(result.components).toEqual([-1, -4, -4]);
+  });
+
+  it('is antisymmetric', () => {
+    expect(
+      wedge([
+        [19, 30, 44],
+        [12, 19, 28],
+      ]).components,
+    ).toEqual([1, 4, 4]);
+  });
+
+  it('pads missing components with zeros', () => {
+    expect(
+      wedge([
+        [1, 0, 0],
+        [0, 1],
+      ]).components,
+    ).toEqual([1, 0, 0]);
+  });
+
+  it('throws on empty input', () => {
+    expect(() => wedge([])).toThrow('Cannot wedge an empty list of vectors');
+  });
+});
+
+describe('Canonical wedgie', () => {
+  it('identifies 7-limit septimal meantone', () => {
+    expect(
+      wedgie([
+        [12, 19, 28, 34],
+        [19, 30, 44, 53],
+      ]).components,
+    ).toEqual([1, 4, 10, 4, 13, 12]);
+  });
+
+  it('removes torsion', () => {
+    expect(
+      normalizeWedgie({grade: 2, dimension: 3, components: [-2, -8, -8]})
+        .components,
+    ).toEqual([1, 4, 4]);
+  });
+
+  it('throws on linearly dependent vals', () => {
+    expect(() =>
+      wedgie([
+        [12, 19, 28],
+        [24, 38, 56],
+      ]),
+    ).toThrow('Vals are linearly dependent');
+  });
+
+  it('agrees with commas', () => {
+    expect(commaWedgie([[-4, 4, -1]]).components).toEqual([1, 4, 4]);
+    expect(
+      commaWedgie([
+        [-4, 4, -1, 0],
+        [1, 2, -3, 1],
+      ]).components,
+    ).toEqual([1, 4, 10, 4, 13, 12]);
+  });
+
+  it('is available on temperaments', () => {
+    expect(
+      Temperament.fromCommas(['81/80', '126/125']).wedgie().components,
+    ).toEqual([1, 4, 10, 4, 13, 12]);
+  });
+
+  it('has an involutive Hodge dual up to sign', () => {
+    const multival = wedge([
+      [12, 19, 28, 34],
+      [19, 30, 44, 53],
+    ]);
+    const twice = hodgeDual(hodgeDual(multival));
+    expect(twice.grade).toBe(2);
+    expect(twice.components.map(Math.abs)).toEqual(
+      multival.components.map(Math.abs),
+    );
+  });
+});
+
+describe('Multival to mapping', () => {
+  it('recovers septimal meantone', () => {
+    expect(
+      multivalToMapping({
+        grade: 2,
+        dimension: 4,
+        components: [1, 4, 10, 4, 13, 12],
+      }),
+    ).toEqual([
+      [1, 0, -4, -13],
+      [0, 1, 4, 10],
+    ]);
+  });
+
+  it('recovers a rank-3 temperament from its comma', () => {
+    expect(multivalToMapping(commaWedgie([[-4, 4, -1, 0]], 4))).toEqual([
+      [1, 0, -4, 0],
+      [0, 1, 4, 0],
+      [0, 0, 0, 1],
+    ]);
+  });
+
+  it('rejects non-decomposable multivals', () => {
+    expect(() =>
+      multivalToMapping({
+        grade: 2,
+        dimension: 4,
+        components: [1, 0, 0, 0, 0, 1],
+      }),
+    ).toThrow('Multival is not decomposable');
+  });
+});
+
+describe('Wedgie complexity and badness', () => {
+  it('agrees with TE complexity for vals', () => {
+    const val = [12, 19, 28];
+    expect(wedgieComplexity(wedge([val]))).toBeCloseTo(teComplexity(val));
+  });
+
+  it('measures meantone', () => {
+    const meantone = wedgie([
+      [12, 19, 28],
+      [19, 30, 44],
+    ]);
+    expect(wedgieComplexity(meantone)).toBeCloseTo(1.23115);
+    expect(wedgieBadness(meantone)).toBeCloseTo(0.00487);
+  });
+
+  it('prefers meantone over a less accurate temperament', () => {
+    const meantone = wedgie([
+      [12, 19, 28],
+      [19, 30, 44],
+    ]);
+    const dicot = commaWedgie([[-3, -1, 2]]);
+    expect(wedgieBadness(meantone)).toBeLessThan(wedgieBadness(dicot));
+  });
+});
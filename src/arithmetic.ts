@@ -0,0 +1,227 @@
+import {BIG_INT_PRIMES, factorizeBigInt} from './primes.js';
+
+function validate(n: number | bigint) {
+  if (typeof n === 'bigint' ? n < 1n : !Number.isInteger(n) || n < 1) {
+    throw new Error('Argument must be a positive integer');
+  }
+  return BigInt(n);
+}
+
+// Prime factorization of a positive integer as pairs of BigInt primes and exponents in ascending order.
+function factorize(n: number | bigint) {
+  return factorizeBigInt(validate(n));
+}
+
+function convert(result: bigint, n: number | bigint) {
+  return typeof n === 'bigint' ? result : Number(result);
+}
+
+/**
+ * List the divisors of a positive integer.
+ * ```ts
+ * divisors(12)  // [1, 2, 3, 4, 6, 12]
+ * ```
+ * @param n Integer to divide.
+ * @returns The positive divisors of `n` in ascending order.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function divisors(n: number): number[];
+export function divisors(n: bigint): bigint[];
+export function divisors(n: number | bigint): number[] | bigint[] {
+  let result = [1n];
+  for (const [prime, exponent] of factorize(n)) {
+    const next: bigint[] = [];
+    for (const divisor of result) {
+      let power = 1n;
+      for (let i = 0; i <= exponent; ++i) {
+        next.push(divisor * power);
+        power *= prime;
+      }
+    }
+    result = next;
+  }
+  result.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return typeof n === 'bigint' ? result : result.map(Number);
+}
+
+/**
+ * Count the divisors of a positive integer.
+ * ```ts
+ * divisorCount(12)  // 6
+ * ```
+ * @param n Integer to divide.
+ * @returns The number of positive divisors of `n`.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function divisorCount(n: number | bigint) {
+  let result = 1;
+  for (const [, exponent] of factorize(n)) {
+    result *= exponent + 1;
+  }
+  return result;
+}
+
+/**
+ * Calculate the sum of the k'th powers of the divisors of a positive integer.
+ * ```ts
+ * divisorSigma(12)  // 28
+ * divisorSigma(12, 2)  // 210
+ * ```
+ * @param n Integer to divide.
+ * @param k Power of the divisors. Zero counts the divisors.
+ * @returns σ_k(n).
+ * @throws An error if the argument is not a positive integer or if `k` is not a non-negative integer.
+ */
+export function divisorSigma(n: number, k?: number): number;
+export function divisorSigma(n: bigint, k?: number): bigint;
+export function divisorSigma(n: number | bigint, k = 1): number | bigint {
+  if (!Number.isInteger(k) || k < 0) {
+    throw new Error('Power must be a non-negative integer');
+  }
+  let result = 1n;
+  for (const [prime, exponent] of factorize(n)) {
+    const base = prime ** BigInt(k);
+    if (base === 1n) {
+      result *= BigInt(exponent + 1);
+    } else {
+      result *= (base ** BigInt(exponent + 1) - 1n) / (base - 1n);
+    }
+  }
+  return convert(result, n);
+}
+
+/**
+ * Calculate Euler's totient function i.e. the number of integers up to n that are coprime with n.
+ * ```ts
+ * totient(12)  // 4
+ * ```
+ * @param n Positive integer.
+ * @returns φ(n).
+ * @throws An error if the argument is not a positive integer.
+ */
+export function totient(n: number): number;
+export function totient(n: bigint): bigint;
+export function totient(n: number | bigint): number | bigint {
+  let result = 1n;
+  for (const [prime, exponent] of factorize(n)) {
+    result *= prime ** BigInt(exponent - 1) * (prime - 1n);
+  }
+  return convert(result, n);
+}
+
+/**
+ * Calculate the Möbius function of a positive integer.
+ * ```ts
+ * mobius(30)  // -1
+ * mobius(12)  // 0
+ * ```
+ * @param n Positive integer.
+ * @returns 0 if `n` has a squared prime factor, otherwise 1 or -1 depending on the parity of the number of prime factors.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function mobius(n: number | bigint) {
+  const factors = factorize(n);
+  if (factors.some(([, exponent]) => exponent > 1)) {
+    return 0;
+  }
+  return factors.length % 2 ? -1 : 1;
+}
+
+/**
+ * Calculate the radical of a positive integer i.e. the product of its distinct prime factors.
+ * ```ts
+ * radical(72)  // 6
+ * ```
+ * @param n Positive integer.
+ * @returns The largest square-free divisor of `n`.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function radical(n: number): number;
+export function radical(n: bigint): bigint;
+export function radical(n: number | bigint): number | bigint {
+  let result = 1n;
+  for (const [prime] of factorize(n)) {
+    result *= prime;
+  }
+  return convert(result, n);
+}
+
+/**
+ * Find the smallest prime factor of a positive integer.
+ * @param n Positive integer.
+ * @returns The smallest prime dividing `n` or 1 if `n` is 1.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function smallestPrimeFactor(n: number): number;
+export function smallestPrimeFactor(n: bigint): bigint;
+export function smallestPrimeFactor(n: number | bigint): number | bigint {
+  const factors = factorize(n);
+  return convert(factors.length ? factors[0][0] : 1n, n);
+}
+
+/**
+ * Find the largest prime factor of a positive integer.
+ * @param n Positive integer.
+ * @returns The largest prime dividing `n` or 1 if `n` is 1.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function largestPrimeFactor(n: number): number;
+export function largestPrimeFactor(n: bigint): bigint;
+export function largestPrimeFactor(n: number | bigint): number | bigint {
+  const factors = factorize(n);
+  return convert(factors.length ? factors[factors.length - 1][0] : 1n, n);
+}
+
+/**
+ * Check if a positive integer is p-smooth i.e. none of its prime factors exceed p.
+ * ```ts
+ * isSmooth(360, 5)  // true
+ * ```
+ * @param n Positive integer.
+ * @param p Largest prime factor allowed.
+ * @returns `true` if all prime factors of `n` are at most `p`.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function isSmooth(n: number | bigint, p: number) {
+  let residual = validate(n);
+  for (const prime of BIG_INT_PRIMES) {
+    if (prime > p) {
+      return residual === 1n;
+    }
+    // The residual is 1 or a prime.
+    if (prime * prime > residual) {
+      return residual <= p;
+    }
+    while (residual % prime === 0n) {
+      residual /= prime;
+    }
+  }
+  return residual <= p || factorize(residual).every(([prime]) => prime <= p);
+}
+
+/**
+ * Check if a positive integer is p-rough i.e. none of its prime factors are smaller than p.
+ * ```ts
+ * isRough(77, 7)  // true
+ * ```
+ * @param n Positive integer.
+ * @param p Smallest prime factor allowed.
+ * @returns `true` if all prime factors of `n` are at least `p`.
+ * @throws An error if the argument is not a positive integer.
+ */
+export function isRough(n: number | bigint, p: number) {
+  const residual = validate(n);
+  for (const prime of BIG_INT_PRIMES) {
+    if (prime >= p) {
+      return true;
+    }
+    // The residual is 1 or a prime.
+    if (prime * prime > residual) {
+      return residual === 1n || residual >= p;
+    }
+    if (residual % prime === 0n) {
+      return false;
+    }
+  }
+  return factorize(residual)[0][0] >= p;
+}
@@ -169,6 +169,63 @@ export function lenstraLenstraLovasz(
   };
 }
 
+/**
+ * Enumerate the lattice points within a radius of the origin using the Fincke–Pohst algorithm.
+ * The basis should be reduced using {@link lenstraLenstraLovasz} first to keep the search tree small.
+ * @param basis Array of linearly independent basis elements.
+ * @param radiusSquared Squared Euclidean norm of the largest points to visit.
+ * @param visitor Callback receiving the coefficients of each point in terms of the basis. The array is reused between calls.
+ * @param symmetric Visit only one of each pair of opposite points by keeping the leading non-zero coefficient positive.
+ * @param epsilon Relative tolerance for points on the boundary.
+ */
+export function finckePohst(
+  basis: readonly (readonly number[])[],
+  radiusSquared: number,
+  visitor: (coefficients: number[]) => void,
+  symmetric = false,
+  epsilon = 1e-9,
+) {
+  const n = basis.length;
+  if (!n) {
+    visitor([]);
+    return;
+  }
+  const {squaredLengths, dual} = gram(basis);
+  const mu = basis.map(row => dual.map(d => dot(row, d)));
+  const tolerance = epsilon * Math.max(1, radiusSquared);
+  const coefficients: number[] = Array(n).fill(0);
+
+  function enumerate(level: number, remaining: number, leading: boolean) {
+    let center = 0;
+    for (let j = level + 1; j < n; ++j) {
+      center -= coefficients[j] * mu[j][level];
+    }
+    const span = Math.sqrt(Math.max(0, remaining) / squaredLengths[level]);
+    // Coerce negative zero to zero.
+    let lowest = Math.ceil(center - span - epsilon) || 0;
+    if (leading) {
+      lowest = Math.max(0, lowest);
+    }
+    const highest = Math.floor(center + span + epsilon);
+    for (let k = lowest; k <= highest; ++k) {
+      const offset = k - center;
+      const rest = remaining - offset * offset * squaredLengths[level];
+      if (rest < -tolerance) {
+        continue;
+      }
+      coefficients[level] = k;
+      if (level) {
+        enumerate(level - 1, rest, leading && !k);
+      } else {
+        visitor(coefficients);
+      }
+    }
+    coefficients[level] = 0;
+  }
+
+  enumerate(n - 1, radiusSquared, symmetric);
+}
+
 const HALF = new Fraction(1, 2);
 
 /**
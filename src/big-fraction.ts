@@ -0,0 +1,1100 @@
+import {Fraction, FractionValue, gcd, lcm} from './fraction.js';
+import {
+  Monzo,
+  bigAbs,
+  monzoToBigNumeratorDenominator,
+  sub,
+  toMonzo,
+} from './monzo.js';
+
+/**
+ * JSON compatible representation of a {@link BigFraction}. Integers are stored as strings because JSON has no BigInt support.
+ */
+export type SerializedBigFraction = {n: string; d: string};
+
+/**
+ * Unsigned or signed numerator and denominator pair of BigInts.
+ */
+export type UnsignedBigFraction = {n: bigint; d: bigint};
+
+/**
+ * Values that can be converted to {@link BigFraction} instances.
+ */
+export type BigFractionValue =
+  | BigFraction
+  | UnsignedBigFraction
+  | FractionValue
+  | bigint;
+
+const MAX_CONTINUED_LENGTH = 1000;
+const MAX_CYCLE_LENGTH = 128;
+
+// Bit length above which BigInts no longer fit into IEEE doubles.
+const IEEE_BITS = 1020;
+
+/**
+ * Calculate the number of bits required to represent a non-negative BigInt.
+ * @param n Integer to measure.
+ * @returns Number of binary digits in `n`.
+ */
+export function bigBitLength(n: bigint) {
+  if (!n) {
+    return 0;
+  }
+  return bigAbs(n).toString(2).length;
+}
+
+/**
+ * Calculate the natural logarithm of a positive BigInt without overflowing to `Infinity`.
+ * @param n Integer to take the logarithm of.
+ * @returns The natural logarithm of `n`.
+ */
+export function bigLog(n: bigint) {
+  const excess = bigBitLength(n) - IEEE_BITS;
+  if (excess > 0) {
+    return Math.log(Number(n >> BigInt(excess))) + excess * Math.LN2;
+  }
+  return Math.log(Number(n));
+}
+
+/**
+ * Calculate the integer `degree`th root of a non-negative BigInt rounded down.
+ * @param n Radicand.
+ * @param degree Index of the root.
+ * @returns The largest integer `r` such that `r ** degree <= n`.
+ */
+export function bigIntRoot(n: bigint, degree: bigint) {
+  if (n < 0n) {
+    throw new Error('Cannot take the root of a negative number');
+  }
+  if (n < 2n || degree === 1n) {
+    return n;
+  }
+  // Newton's method starting from a power of two above the root.
+  let x = 1n << (BigInt(bigBitLength(n)) / degree + 1n);
+  while (true) {
+    const y = ((degree - 1n) * x + n / x ** (degree - 1n)) / degree;
+    if (y >= x) {
+      return x;
+    }
+    x = y;
+  }
+}
+
+/**
+ * Arbitrary-precision fraction with a BigInt numerator and denominator.
+ *
+ * Offers the same API as {@link Fraction} but never overflows.
+ *
+ * Numerator, denominator form
+ * ```ts
+ * new BigFraction(numerator, denominator);
+ * ```
+ *
+ * Integer form
+ * ```ts
+ * new BigFraction(123n);
+ * ```
+ *
+ * Floating point form (converted exactly)
+ * ```ts
+ * new BigFraction(0.1);
+ * ```
+ *
+ * String form
+ * ```ts
+ * new BigFraction("123.456");  // a simple decimal
+ * new BigFraction("123/456");  // a string fraction
+ * new BigFraction("13e-3");  // scientific notation
+ * new BigFraction("1.'3'");  // a repeating decimal
+ * ```
+ */
+export class BigFraction {
+  /** Sign: +1, 0 or -1 */
+  s: number;
+  /** Numerator */
+  n: bigint;
+  /** Denominator */
+  d: bigint;
+
+  constructor(numerator: BigFractionValue, denominator?: bigint | number) {
+    if (denominator !== undefined) {
+      if (typeof numerator !== 'bigint' && typeof numerator !== 'number') {
+        throw new Error(
+          'Numerator must be an integer when denominator is given',
+        );
+      }
+      const n = toBigInteger(numerator);
+      const d = toBigInteger(denominator);
+      if (!d) {
+        throw new Error('Division by Zero');
+      }
+      this.s = n ? (n < 0n !== d < 0n ? -1 : 1) : 0;
+      this.n = bigAbs(n);
+      this.d = bigAbs(d);
+      this.reduce();
+    } else if (typeof numerator === 'bigint') {
+      this.s = numerator ? (numerator < 0n ? -1 : 1) : 0;
+      this.n = bigAbs(numerator);
+      this.d = 1n;
+    } else if (typeof numerator === 'number') {
+      if (isNaN(numerator)) {
+        throw new Error('Cannot represent NaN as a fraction');
+      }
+      if (!isFinite(numerator)) {
+        throw new Error('Cannot represent Infinity as a fraction');
+      }
+      this.s = Math.sign(numerator);
+      let n = Math.abs(numerator);
+      this.d = 1n;
+      // IEEE floats are dyadic so this terminates exactly.
+      while (n !== Math.floor(n)) {
+        n *= 2;
+        this.d *= 2n;
+      }
+      this.n = BigInt(n);
+      this.reduce();
+    } else if (typeof numerator === 'string') {
+      const {s, n, d} = parseBigFraction(numerator);
+      this.s = s;
+      this.n = n;
+      this.d = d;
+      this.reduce();
+    } else {
+      if (typeof numerator.n === 'bigint' && typeof numerator.d === 'bigint') {
+        if (!numerator.d) {
+          throw new Error('Division by Zero');
+        }
+        this.s = 's' in numerator ? Math.sign(numerator.s) : 1;
+        if (numerator.n < 0n) {
+          this.s = -this.s;
+        }
+        if (numerator.d < 0n) {
+          this.s = -this.s;
+        }
+        this.n = bigAbs(numerator.n);
+        this.d = bigAbs(numerator.d);
+      } else {
+        // Normalize plain number representations through the validated path.
+        const {s, n, d} = new Fraction(numerator as FractionValue);
+        this.s = s;
+        this.n = BigInt(n);
+        this.d = BigInt(d);
+      }
+      if (!this.n) {
+        this.s = 0;
+      }
+      this.reduce();
+    }
+  }
+
+  /**
+   * Reduce out the common factor between the numerator and denominator.
+   */
+  reduce() {
+    const commonFactor = gcd(this.n, this.d);
+    if (commonFactor > 1n) {
+      this.n /= commonFactor;
+      this.d /= commonFactor;
+    }
+    if (!this.n) {
+      this.s = 0;
+      this.d = 1n;
+    }
+  }
+
+  /**
+   * Creates a string representation of a fraction with all digits.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("100.'91823'").toString()  // "100.'91823'"
+   * ```
+   **/
+  toString() {
+    let result = this.s < 0 ? '-' : '';
+    result += (this.n / this.d).toString();
+    let remainder = this.n % this.d;
+    if (!remainder) {
+      return result;
+    }
+    result += '.';
+    let decimals = '';
+    const history = [remainder];
+
+    for (let i = 0; i < MAX_CYCLE_LENGTH; ++i) {
+      remainder *= 10n;
+      decimals += (remainder / this.d).toString();
+      remainder %= this.d;
+      if (!remainder) {
+        return result + decimals;
+      }
+      const j = history.indexOf(remainder);
+      if (j >= 0) {
+        return result + decimals.slice(0, j) + "'" + decimals.slice(j) + "'";
+      }
+      history.push(remainder);
+    }
+    return result + decimals + '...';
+  }
+
+  /**
+   * Serialize the fraction to a JSON compatible object.
+   * @returns An object with properties 'n', and 'd' corresponding to a signed numerator and an unsigned denominator respectively as decimal strings.
+   */
+  toJSON(): SerializedBigFraction {
+    return {
+      n: (this.s < 0 ? -this.n : this.n).toString(),
+      d: this.d.toString(),
+    };
+  }
+
+  /**
+   * Revive a {@link BigFraction} instance produced by BigFraction.toJSON(). Return everything else as is.
+   *
+   * Intended usage:
+   * ```ts
+   * const data = JSON.parse(serializedData, BigFraction.reviver);
+   * ```
+   *
+   * @param key Property name.
+   * @param value Property value.
+   * @returns Deserialized {@link BigFraction} instance or other data without modifications.
+   */
+  static reviver(key: string, value: unknown) {
+    if (
+      typeof value === 'object' &&
+      value !== null &&
+      'n' in value &&
+      typeof value.n === 'string' &&
+      /^-?\d+$/.test(value.n) &&
+      'd' in value &&
+      typeof value.d === 'string' &&
+      /^\d+$/.test(value.d) &&
+      Object.keys(value).length === 2
+    ) {
+      return new BigFraction(BigInt(value.n), BigInt(value.d));
+    }
+    return value;
+  }
+
+  /**
+   * Convert to a {@link Fraction} instance.
+   * @returns The same value with a numerator and denominator of the Number type.
+   * @throws An error if the numerator or denominator exceeds `Number.MAX_SAFE_INTEGER`.
+   */
+  toFractionInstance() {
+    return new Fraction({
+      s: this.s,
+      n: Number(this.n),
+      d: Number(this.d),
+    } as Fraction);
+  }
+
+  /**
+   * Extract the exponents of the prime factors of the fraction.
+   * @returns The monzo representing the fraction.
+   * @throws An error if the fraction is not positive or has prime factors above 7919.
+   */
+  toMonzo(): Monzo {
+    if (this.s !== 1) {
+      throw new Error(`Cannot convert fraction ${this.toFraction()} to monzo`);
+    }
+    return sub(toMonzo(this.n), toMonzo(this.d));
+  }
+
+  /**
+   * Returns an array of continued fraction elements.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("7/8").toContinued()  // [0n, 1n, 7n]
+   * ```
+   */
+  toContinued() {
+    const result: bigint[] = [];
+    let a = this.n;
+    let b = this.d;
+    for (let i = 0; i < MAX_CONTINUED_LENGTH; ++i) {
+      const coef = a / b;
+      result.push(coef);
+      [a, b] = [b, a - coef * b];
+      if (a === 1n) {
+        break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Calculates the absolute value.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(-4).abs()  // 4
+   * ```
+   **/
+  abs() {
+    return new BigFraction({
+      s: Math.abs(this.s),
+      n: this.n,
+      d: this.d,
+    } as BigFraction);
+  }
+
+  /**
+   * Returns a decimal representation of the fraction. Huge numerators and denominators are scaled down before conversion.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("100.'91823'").valueOf()  // 100.91823918239183
+   * ```
+   **/
+  valueOf() {
+    let n = this.n;
+    let d = this.d;
+    const excess = Math.max(bigBitLength(n), bigBitLength(d)) - IEEE_BITS;
+    if (excess <= 0) {
+      return (this.s * Number(n)) / Number(d);
+    }
+    // Divide with enough precision for a 64-bit quotient and restore the scale with powers of two.
+    const scale = 64 - bigBitLength(n) + bigBitLength(d);
+    if (scale > 0) {
+      n <<= BigInt(scale);
+    } else {
+      d <<= BigInt(-scale);
+    }
+    let quotient = n / d;
+    // Keep a sticky bit so that the conversion rounds correctly.
+    if (quotient * d !== n) {
+      quotient |= 1n;
+    }
+    const half = Math.trunc(scale / 2);
+    return this.s * Number(quotient) * 2 ** -half * 2 ** (half - scale);
+  }
+
+  /**
+   * Returns the inverse of the fraction, numerator and denominator are exchanged.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(-3, 4).inverse()  // -4/3
+   * ```
+   **/
+  inverse() {
+    if (!this.n) {
+      throw new Error('Division by Zero');
+    }
+    return new BigFraction({s: this.s, n: this.d, d: this.n} as BigFraction);
+  }
+
+  /**
+   * Returns the additive inverse of the fraction.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(-4).neg()  // 4
+   * ```
+   **/
+  neg() {
+    return new BigFraction({s: -this.s, n: this.n, d: this.d} as BigFraction);
+  }
+
+  /**
+   * Returns a string-fraction representation of a BigFraction object.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("1.'3'").toFraction()  // "4/3"
+   * ```
+   **/
+  toFraction() {
+    const n = this.s < 0 ? -this.n : this.n;
+    if (this.d === 1n) {
+      return n.toString();
+    }
+    return `${n}/${this.d}`;
+  }
+
+  /**
+   * Clones the actual object.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("-17.'345'").clone()  // new BigFraction("-17.'345'")
+   * ```
+   **/
+  clone() {
+    return new BigFraction(this);
+  }
+
+  /**
+   * Calculates the floor of a rational number.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("4.'3'").floor()  // 4/1
+   * ```
+   **/
+  floor() {
+    const n = this.s < 0 ? -this.n : this.n;
+    const m = ((n % this.d) + this.d) % this.d;
+    return new BigFraction((n - m) / this.d);
+  }
+
+  /**
+   * Calculates the ceil of a rational number.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("4.'3'").ceil()  // 5/1
+   * ```
+   **/
+  ceil() {
+    return this.neg().floor().neg();
+  }
+
+  /**
+   * Rounds a rational number. Halves are rounded towards positive infinity.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("4.'3'").round()  // 4/1
+   * new BigFraction("4.5").round()    // 5/1
+   * new BigFraction("4.'6'").round()  // 5/1
+   * ```
+   **/
+  round() {
+    return this.add(new BigFraction(1n, 2n)).floor();
+  }
+
+  /**
+   * Rounds a rational number to a multiple of another rational number.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("0.78").roundTo("1/9")  // 7/9
+   * ```
+   **/
+  roundTo(other: BigFractionValue) {
+    const other_ = new BigFraction(other);
+    return this.div(other_).round().mul(other_);
+  }
+
+  /**
+   * Adds two rational numbers.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction({n: 2n, d: 3n}).add("14.9")  // 467/30
+   * ```
+   **/
+  add(other: BigFractionValue) {
+    const {s, n, d} = new BigFraction(other);
+    return new BigFraction(
+      signed(this.s, this.n) * d + signed(s, n) * this.d,
+      this.d * d,
+    );
+  }
+
+  /**
+   * Subtracts two rational numbers.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction({n: 2n, d: 3n}).sub("14.9")  // -427/30
+   * ```
+   **/
+  sub(other: BigFractionValue) {
+    const {s, n, d} = new BigFraction(other);
+    return new BigFraction(
+      signed(this.s, this.n) * d - signed(s, n) * this.d,
+      this.d * d,
+    );
+  }
+
+  /**
+   * Perform harmonic addition of two rational numbers according to the thin lens equation f⁻¹ = u⁻¹ + v⁻¹.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction('5/3').lensAdd('3/2')  // 15/19
+   * ```
+   */
+  lensAdd(other: BigFractionValue) {
+    const other_ = new BigFraction(other);
+    if (!other_.n || !this.n) {
+      // Based on behavior in the limit where both terms become zero.
+      return new BigFraction(0n);
+    }
+    return this.inverse().add(other_.inverse()).inverse();
+  }
+
+  /**
+   * Perform harmonic subtraction of two rational numbers u⁻¹ = f⁻¹ - v⁻¹ (rearranged thin lens equation).
+   *
+   * Example:
+   * ```ts
+   * new BigFraction('15/19').lensSub('3/2')  // 5/3
+   * ```
+   */
+  lensSub(other: BigFractionValue) {
+    const other_ = new BigFraction(other);
+    if (!other_.n || !this.n) {
+      // Based on behavior in the limit where both terms become zero.
+      return new BigFraction(0n);
+    }
+    return this.inverse().sub(other_.inverse()).inverse();
+  }
+
+  /**
+   * Multiplies two rational numbers.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("-17.'345'").mul(3)  // 5776/111
+   * ```
+   **/
+  mul(other: BigFractionValue) {
+    const {s, n, d} = new BigFraction(other);
+    return new BigFraction({
+      s: this.s * s,
+      n: this.n * n,
+      d: this.d * d,
+    } as BigFraction);
+  }
+
+  /**
+   * Divides two rational numbers
+   *
+   * Example:
+   * ```ts
+   * new BigFraction("-17.'345'").div(3)  // 5776/999
+   * ```
+   **/
+  div(other: BigFractionValue) {
+    const {s, n, d} = new BigFraction(other);
+    if (!n) {
+      throw new Error('Division by Zero');
+    }
+    return new BigFraction({
+      s: this.s * s,
+      n: this.n * d,
+      d: this.d * n,
+    } as BigFraction);
+  }
+
+  /**
+   * Calculates the computational modulo of two rational numbers - a more precise fmod. Incorrectly processes signs.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("5/1").mod("3/1")   //   (5/1) % (3/1)  = 2/1
+   * new BigFraction("-5/1").mod("3/1")  // -((5/1) % (3/1)) = -2/1
+   * ```
+   **/
+  mod(other: BigFractionValue) {
+    const {n, d} = new BigFraction(other);
+    const denominator = lcm(this.d, d);
+    return new BigFraction(
+      signed(this.s, (denominator / this.d) * this.n) % (n * (denominator / d)),
+      denominator,
+    );
+  }
+
+  /**
+   * Calculates the mathematical modulo of two rational numbers. Correctly processes signs.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("5/1").mmod("3/1")   // (5/1) % (3/1)  = 2/1
+   * new BigFraction("-5/1").mmod("3/1")  // (-5/1) % (3/1) = (1/1) % (3/1) = 1/1
+   * ```
+   **/
+  mmod(other: BigFractionValue) {
+    const {n, d} = new BigFraction(other);
+    const denominator = lcm(this.d, d);
+    const modulus = n * (denominator / d);
+    return new BigFraction(
+      ((signed(this.s, (denominator / this.d) * this.n) % modulus) + modulus) %
+        modulus,
+      denominator,
+    );
+  }
+
+  /**
+   * Calculates the square root of the rational number.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("9/4").sqrt() // 3/2
+   * new BigFraction(-1).sqrt()    // null
+   * ```
+   * @returns The positive square root if it exists as a rational number.
+   */
+  sqrt(): BigFraction | null {
+    if (this.s < 0) {
+      return null;
+    }
+    return this.root(2n);
+  }
+
+  // Exact positive integer root of the absolute value.
+  private root(degree: bigint): BigFraction | null {
+    const n = bigIntRoot(this.n, degree);
+    if (n ** degree !== this.n) {
+      return null;
+    }
+    const d = bigIntRoot(this.d, degree);
+    if (d ** degree !== this.d) {
+      return null;
+    }
+    return new BigFraction(n, d);
+  }
+
+  /**
+   * Calculates the fraction to some rational exponent, if possible.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("1/2").pow(2)      // 1/4
+   * new BigFraction("-1/2").pow(-3)    // -8
+   * new BigFraction("9/4").pow("3/2")  // 27/8
+   * new BigFraction("2/1").pow("1/2")  // null
+   * ```
+   */
+  pow(other: BigFractionValue): BigFraction | null {
+    const {s, n, d} = new BigFraction(other);
+    if (s === 0) {
+      return new BigFraction(1n);
+    }
+    if (this.s === 0) {
+      if (s < 0) {
+        throw new Error('Division by Zero');
+      }
+      return new BigFraction(0n);
+    }
+    if (this.s < 0 && d % 2n === 0n) {
+      return null;
+    }
+    let base: BigFraction | null = this.abs();
+    if (d !== 1n) {
+      base = base.root(d);
+      if (base === null) {
+        return null;
+      }
+    }
+    const sign = this.s < 0 && n % 2n ? -1 : 1;
+    if (s < 0) {
+      return new BigFraction({
+        s: sign,
+        n: base.d ** n,
+        d: base.n ** n,
+      } as BigFraction);
+    }
+    return new BigFraction({
+      s: sign,
+      n: base.n ** n,
+      d: base.d ** n,
+    } as BigFraction);
+  }
+
+  /**
+   * Compare two rational numbers.
+   *
+   * Unlike {@link Fraction.compare} the result is always -1, 0 or +1 because the difference may not be representable as a Number.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("19.7").compare("98/5") // 1
+   * new BigFraction("19.6").compare("98/5") // 0
+   * new BigFraction("19.5").compare("98/5") // -1
+   * ```
+   **/
+  compare(other: BigFractionValue) {
+    try {
+      const {s, n, d} = new BigFraction(other);
+      const difference = signed(this.s, this.n) * d - signed(s, n) * this.d;
+      return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+    } catch {
+      return NaN;
+    }
+  }
+
+  /**
+   * Check if two rational numbers are the same
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("19.7").equals("98/5") // false
+   * new BigFraction("19.6").equals("98/5") // true
+   * ```
+   **/
+  equals(other: BigFractionValue) {
+    try {
+      const {s, n, d} = new BigFraction(other);
+      return this.s === s && this.n === n && this.d === d;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if two rational numbers are divisible
+   * (i.e. this is an integer multiple of other)
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction("7.6").divisible("5/2") // false
+   * new BigFraction("7.5").divisible("5/2") // true
+   * ```
+   */
+  divisible(other: BigFractionValue) {
+    try {
+      const {n, d} = new BigFraction(other);
+      return !(!n || (this.n * d) % (n * this.d));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Calculates the fractional gcd of two rational numbers. (i.e. both this and other is divisible by the result)
+   *
+   * Always returns a non-negative result.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(5n, 8n).gcd("3/7")  // 1/56
+   * ```
+   */
+  gcd(other: BigFractionValue) {
+    const {n, d} = new BigFraction(other);
+    return new BigFraction(gcd(n, this.n), lcm(this.d, d));
+  }
+
+  /**
+   * Calculates the fractional lcm of two rational numbers. (i.e. the result is divisible by both this and other)
+   *
+   * Has the same sign as the product of the rational numbers.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(5n, 8n).lcm("3/7")  // 15
+   * ```
+   */
+  lcm(other: BigFractionValue) {
+    const {s, n, d} = new BigFraction(other);
+    const result = new BigFraction(lcm(n, this.n), gcd(d, this.d));
+    result.s = this.s * s;
+    return result;
+  }
+
+  /**
+   * Geometrically reduce a rational number until its absolute value is between 1 and the absolute value of other, i.e. geometric modulo.
+   * Note: Returns a positive result for a negative modulo if the required number of divisions is even.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction(5n).geoMod(2)          // 5/4
+   * new BigFraction(1n, 11n).geoMod(3)     // 27/11
+   * new BigFraction(1n, 11n).geoMod("-1/3")  // 9/11
+   * ```
+   */
+  geoMod(other: BigFractionValue) {
+    let {n, d} = this;
+    const {s: os, n: on, d: od} = new BigFraction(other);
+
+    if (on === od) {
+      throw new Error('Geometric modulo by 1');
+    }
+
+    let octaves = Math.floor(
+      (bigLog(n) - bigLog(d)) / (bigLog(on) - bigLog(od)),
+    );
+
+    if (isNaN(octaves) || !isFinite(octaves)) {
+      throw new Error('Unable to calculate geometric modulo.');
+    }
+
+    if (octaves > 0) {
+      n *= od ** BigInt(octaves);
+      d *= on ** BigInt(octaves);
+    } else if (octaves < 0) {
+      n *= on ** BigInt(-octaves);
+      d *= od ** BigInt(-octaves);
+    }
+
+    // Fine-tune to fix floating point issues.
+    if (on > od) {
+      while (n * od >= d * on) {
+        octaves++;
+        n *= od;
+        d *= on;
+      }
+      while (n < d) {
+        octaves--;
+        n *= on;
+        d *= od;
+      }
+    } else {
+      while (n * od <= d * on) {
+        octaves++;
+        n *= od;
+        d *= on;
+      }
+      while (n > d) {
+        octaves--;
+        n *= on;
+        d *= od;
+      }
+    }
+
+    const s = this.s * os ** octaves;
+
+    return new BigFraction({s, n, d} as BigFraction);
+  }
+
+  /**
+   * Check if the rational number is 1.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction(9n, 9n).isUnity()  // true
+   * new BigFraction(7n, 6n).isUnity()  // false
+   * ```
+   */
+  isUnity() {
+    return this.s === 1 && this.n === 1n && this.d === 1n;
+  }
+
+  /**
+   * Calculates the geometric absolute value. Discards sign.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction(3n, 2n).gabs()   // 3/2
+   * new BigFraction(2n, 3n).gabs()   // 3/2
+   * new BigFraction(-1n, 2n).gabs()  // 2/1
+   * ```
+   **/
+  gabs() {
+    if (this.n < this.d) {
+      return new BigFraction({n: this.d, d: this.n});
+    }
+    return this.abs();
+  }
+
+  /**
+   * Calculate the greatest common radical between two rational numbers if it exists.
+   *
+   * Never returns a subunitary result.
+   *
+   * Treats unity as the identity element: gcr(1, x) = gcr(x, 1) = x
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction(8n).gcr(4)          // 2
+   * new BigFraction(81n).gcr(6561)      // 81
+   * new BigFraction(1n, 2n).gcr("1/3")  // null
+   * ```
+   */
+  gcr(other: BigFractionValue, maxIter = 100) {
+    let a = this.gabs();
+    let b = new BigFraction(other).gabs();
+    if (a.isUnity()) return b;
+    if (b.isUnity()) return a;
+    // Intermediate results are powers of the radical so they never outgrow the inputs.
+    const maxBits = Math.max(
+      bigBitLength(a.n),
+      bigBitLength(a.d),
+      bigBitLength(b.n),
+      bigBitLength(b.d),
+    );
+    const outgrown = (f: BigFraction) =>
+      bigBitLength(f.n) > maxBits || bigBitLength(f.d) > maxBits;
+    for (let i = 0; i < maxIter; ++i) {
+      try {
+        a = a.geoMod(b);
+        if (a.isUnity()) return b;
+        if (outgrown(a)) return null;
+        b = b.geoMod(a);
+        if (b.isUnity()) return a;
+        if (outgrown(b)) return null;
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Calculate the logarithm of a rational number in the base of another, i.e. logdivision if the result exists as a rational number.
+   *
+   * Examples:
+   * ```ts
+   * new BigFraction(4n).log(2)           // 2
+   * new BigFraction(64n, 27n).log("16/9")  // 3/2
+   * new BigFraction(64n, 27n).log(7)       // null
+   * ```
+   */
+  log(other: BigFractionValue, maxIter = 100) {
+    const other_ = new BigFraction(other);
+    if (other_.isUnity()) {
+      if (this.isUnity()) {
+        // Same convention as in Fraction.log.
+        return new BigFraction(1n);
+      }
+      return null;
+    }
+    const radical = this.gcr(other_, maxIter);
+    if (radical === null) {
+      return null;
+    }
+
+    const base = 1 / (bigLog(radical.n) - bigLog(radical.d));
+    const n = Math.round((bigLog(this.n) - bigLog(this.d)) * base);
+    const d = Math.round((bigLog(other_.n) - bigLog(other_.d)) * base);
+
+    if (other_.s < 0) {
+      if (d % 2 === 0) {
+        return null;
+      }
+      if (n % 2) {
+        if (this.s > 0) {
+          return null;
+        }
+      } else {
+        if (this.s < 0) {
+          return null;
+        }
+      }
+    } else if (this.s < 0) {
+      return null;
+    }
+
+    return new BigFraction(BigInt(n), BigInt(d));
+  }
+
+  /**
+   * Calculate the least common radicand between two rational numbers if it exists.
+   *
+   * Example:
+   * ```ts
+   * new BigFraction(8n).lcr(4)  // 64
+   * ```
+   */
+  lcr(other: BigFractionValue, maxIter = 100) {
+    const other_ = new BigFraction(other);
+    const radical = this.gcr(other_, maxIter);
+    if (radical === null) {
+      return null;
+    }
+    if (radical.isUnity()) {
+      return new BigFraction(1n);
+    }
+    const base = 1 / (bigLog(radical.n) - bigLog(radical.d));
+    const n = Math.round((bigLog(this.n) - bigLog(this.d)) * base);
+    const d = Math.round((bigLog(other_.n) - bigLog(other_.d)) * base);
+    return radical.pow(n * d);
+  }
+}
+
+/**
+ * Convert a monzo to the BigFraction it represents.
+ * @param monzo Iterable of prime exponents.
+ * @returns Exact fractional representation of the monzo.
+ */
+export function monzoToBigFraction(monzo: Iterable<number>) {
+  const {numerator, denominator} = monzoToBigNumeratorDenominator(monzo);
+  return new BigFraction({n: numerator, d: denominator});
+}
+
+function signed(s: number, n: bigint) {
+  return s < 0 ? -n : n;
+}
+
+function toBigInteger(value: number | bigint) {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (!Number.isInteger(value)) {
+    throw new Error('Parameters must be integer');
+  }
+  return BigInt(value);
+}
+
+function parseBigFraction(value: string) {
+  value = value.toLowerCase().trim();
+  let exponent: undefined | string;
+  if (value.includes('e')) {
+    [value, exponent] = value.split('e', 2);
+  }
+  let s = 1;
+  if (value.startsWith('-')) {
+    s = -1;
+    value = value.slice(1);
+  } else if (value.startsWith('+')) {
+    value = value.slice(1);
+  }
+  if (value.startsWith('-')) {
+    throw new Error('Double sign');
+  }
+  let n: bigint;
+  let d = 1n;
+  if (value.includes('/')) {
+    if (value.includes('.')) {
+      throw new Error('Parameters must be integer');
+    }
+    const [numerator, denominator] = value.split('/', 2);
+    n = parseDigits(numerator || '1');
+    d = parseDigits(denominator || '1');
+    if (d < 0n) {
+      s = -s;
+      d = -d;
+    }
+  } else if (value.includes('.')) {
+    const [whole, tail] = value.split('.', 2);
+    const [fractional, repeating] = tail.split("'", 2);
+    const scale = 10n ** BigInt(fractional.length);
+    n = parseDigits(whole || '0') * scale + parseDigits(fractional || '0');
+    d = scale;
+    const cycle = (repeating ?? '').replace(/'/g, '');
+    if (cycle.length) {
+      const cycleD = (10n ** BigInt(cycle.length) - 1n) * scale;
+      n = n * cycleD + d * parseDigits(cycle);
+      d *= cycleD;
+    }
+  } else {
+    n = parseDigits(value);
+  }
+  if (!d) {
+    throw new Error('Division by Zero');
+  }
+  if (exponent) {
+    const e = parseInt(exponent, 10);
+    if (isNaN(e)) {
+      throw new Error(`Invalid exponent '${exponent}'`);
+    }
+    if (e > 0) {
+      n *= 10n ** BigInt(e);
+    } else if (e < 0) {
+      d *= 10n ** BigInt(-e);
+    }
+  }
+  if (n < 0n) {
+    s = -s;
+    n = -n;
+  }
+  if (!n) {
+    s = 0;
+  }
+  return {s, n, d};
+}
+
+function parseDigits(digits: string) {
+  if (!/^-?\d+$/.test(digits)) {
+    throw new Error(`Invalid integer '${digits}'`);
+  }
+  return BigInt(digits);
+}
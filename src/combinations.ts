@@ -33,6 +33,15 @@
  * Functions:
  *   kCombinations(set, k) -- Return all non-empty k-sized combinations in a set
  *   combinations(set) -- Return all non-empty combinations of the set
+ *   permutations(set, k) -- Return all k-sized arrangements of distinct elements of the set
+ *   cartesianProduct(sets) -- Return all ways to pick one element from each set
+ *   permutationsWithRepetition(set, k) -- Return all k-sized arrangements of elements of the set
+ *   multisetPermutations(multiset) -- Return all distinct arrangements of the multiset
+ *   kMultisets(set, k) -- Return all k-sized multisets of elements of the set
+ *   compositions(n, k) -- Return all ordered sums of positive integers equal to n
+ *   partitions(n, maxPart) -- Return all unordered sums of positive integers equal to n
+ *
+ * Each function has a lazy counterpart prefixed with "iter" e.g. iterKCombinations(set, k) that returns a generator instead of an array.
  */
 
 /**
@@ -199,3 +208,336 @@ export function* iterCombinations<T>(
   }
   return total;
 }
+
+/**
+ * K-permutations
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of permutations to search for. Defaults to the size of the set.
+ * @returns Generator of ordered arrangements of k distinct elements of the set.
+ */
+export function* iterPermutations<T>(
+  set: readonly T[],
+  k = set.length,
+): Generator<T[], number, undefined> {
+  if (k > set.length || k <= 0) {
+    return 0;
+  }
+  const used: boolean[] = Array(set.length).fill(false);
+  const current: T[] = [];
+  let total = 0;
+  function* permute(): Generator<T[]> {
+    if (current.length === k) {
+      total++;
+      yield [...current];
+      return;
+    }
+    for (let i = 0; i < set.length; i++) {
+      if (used[i]) {
+        continue;
+      }
+      used[i] = true;
+      current.push(set[i]);
+      yield* permute();
+      current.pop();
+      used[i] = false;
+    }
+  }
+  yield* permute();
+  return total;
+}
+
+/**
+ * K-permutations
+ *
+ * Examples:
+ * ```ts
+ * permutations([1, 2, 3], 2)  // [[1, 2], [1, 3], [2, 1], [2, 3], [3, 1], [3, 2]]
+ * ```
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of permutations to search for. Defaults to the size of the set.
+ * @returns Array of ordered arrangements of k distinct elements of the set.
+ */
+export function permutations<T>(set: readonly T[], k = set.length): T[][] {
+  return [...iterPermutations(set, k)];
+}
+
+/**
+ * Cartesian product
+ * @param sets Arrays of objects of any type.
+ * @returns Generator of arrays with one element picked from each set in order.
+ */
+export function* iterCartesianProduct<T>(
+  sets: readonly (readonly T[])[],
+): Generator<T[], number, undefined> {
+  if (!sets.length || sets.some(set => !set.length)) {
+    return 0;
+  }
+  // Odometer of indices into each set.
+  const indices: number[] = Array(sets.length).fill(0);
+  let total = 0;
+  while (true) {
+    total++;
+    yield indices.map((index, i) => sets[i][index]);
+    let i = sets.length - 1;
+    while (i >= 0 && indices[i] === sets[i].length - 1) {
+      indices[i] = 0;
+      i--;
+    }
+    if (i < 0) {
+      return total;
+    }
+    indices[i]++;
+  }
+}
+
+/**
+ * Cartesian product
+ *
+ * Examples:
+ * ```ts
+ * cartesianProduct([[1, 2], ['a', 'b']])  // [[1, 'a'], [1, 'b'], [2, 'a'], [2, 'b']]
+ * ```
+ * @param sets Arrays of objects of any type.
+ * @returns Array of arrays with one element picked from each set in order.
+ */
+export function cartesianProduct<T>(sets: readonly (readonly T[])[]): T[][] {
+  return [...iterCartesianProduct(sets)];
+}
+
+/**
+ * K-permutations with repetition
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of permutations to search for.
+ * @returns Generator of ordered arrangements of k elements of the set where elements may repeat.
+ */
+export function* iterPermutationsWithRepetition<T>(
+  set: readonly T[],
+  k: number,
+): Generator<T[], number, undefined> {
+  if (k <= 0) {
+    return 0;
+  }
+  return yield* iterCartesianProduct(Array(k).fill(set));
+}
+
+/**
+ * K-permutations with repetition
+ *
+ * Examples:
+ * ```ts
+ * permutationsWithRepetition([0, 1], 2)  // [[0, 0], [0, 1], [1, 0], [1, 1]]
+ * ```
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of permutations to search for.
+ * @returns Array of ordered arrangements of k elements of the set where elements may repeat.
+ */
+export function permutationsWithRepetition<T>(
+  set: readonly T[],
+  k: number,
+): T[][] {
+  return [...iterPermutationsWithRepetition(set, k)];
+}
+
+/**
+ * Multiset permutations
+ * @param multiset Array of objects of any type. Equal (===) elements are treated as indistinguishable.
+ * @returns Generator of distinct rearrangements of the multiset.
+ */
+export function* iterMultisetPermutations<T>(
+  multiset: readonly T[],
+): Generator<T[], number, undefined> {
+  if (!multiset.length) {
+    return 0;
+  }
+  const values: T[] = [];
+  const counts: number[] = [];
+  for (const element of multiset) {
+    const index = values.indexOf(element);
+    if (index < 0) {
+      values.push(element);
+      counts.push(1);
+    } else {
+      counts[index]++;
+    }
+  }
+  const current: T[] = [];
+  let total = 0;
+  function* permute(): Generator<T[]> {
+    if (current.length === multiset.length) {
+      total++;
+      yield [...current];
+      return;
+    }
+    for (let i = 0; i < values.length; i++) {
+      if (!counts[i]) {
+        continue;
+      }
+      counts[i]--;
+      current.push(values[i]);
+      yield* permute();
+      current.pop();
+      counts[i]++;
+    }
+  }
+  yield* permute();
+  return total;
+}
+
+/**
+ * Multiset permutations
+ *
+ * Examples:
+ * ```ts
+ * multisetPermutations([1, 1, 2])  // [[1, 1, 2], [1, 2, 1], [2, 1, 1]]
+ * ```
+ * @param multiset Array of objects of any type. Equal (===) elements are treated as indistinguishable.
+ * @returns Array of distinct rearrangements of the multiset.
+ */
+export function multisetPermutations<T>(multiset: readonly T[]): T[][] {
+  return [...iterMultisetPermutations(multiset)];
+}
+
+/**
+ * K-multisets i.e. combinations with replacement
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of multisets to search for.
+ * @returns Generator of k-sized multisets of elements of the set in order of appearance.
+ */
+export function* iterKMultisets<T>(
+  set: readonly T[],
+  k: number,
+): Generator<T[], number, undefined> {
+  if (!set.length || k <= 0) {
+    return 0;
+  }
+  const indices: number[] = Array(k).fill(0);
+  let total = 0;
+  while (true) {
+    total++;
+    yield indices.map(index => set[index]);
+    let i = k - 1;
+    while (i >= 0 && indices[i] === set.length - 1) {
+      i--;
+    }
+    if (i < 0) {
+      return total;
+    }
+    const next = indices[i] + 1;
+    for (let j = i; j < k; j++) {
+      indices[j] = next;
+    }
+  }
+}
+
+/**
+ * K-multisets i.e. combinations with replacement
+ *
+ * Examples:
+ * ```ts
+ * kMultisets([1, 2, 3], 2)  // [[1, 1], [1, 2], [1, 3], [2, 2], [2, 3], [3, 3]]
+ * ```
+ * @param set Array of objects of any type. They are treated as unique.
+ * @param k Size of multisets to search for.
+ * @returns Array of k-sized multisets of elements of the set in order of appearance.
+ */
+export function kMultisets<T>(set: readonly T[], k: number): T[][] {
+  return [...iterKMultisets(set, k)];
+}
+
+/**
+ * Integer compositions i.e. ordered sums of positive integers
+ * @param n Positive integer to decompose.
+ * @param k Number of parts. All numbers of parts are produced if not given.
+ * @returns Generator of arrays of positive integers that sum to n.
+ */
+export function* iterCompositions(
+  n: number,
+  k?: number,
+): Generator<number[], number, undefined> {
+  if (n <= 0 || (k !== undefined && (k <= 0 || k > n))) {
+    return 0;
+  }
+  const current: number[] = [];
+  let total = 0;
+  function* compose(remainder: number): Generator<number[]> {
+    if (!remainder) {
+      if (k === undefined || current.length === k) {
+        total++;
+        yield [...current];
+      }
+      return;
+    }
+    if (k !== undefined && current.length >= k) {
+      return;
+    }
+    for (let part = 1; part <= remainder; part++) {
+      current.push(part);
+      yield* compose(remainder - part);
+      current.pop();
+    }
+  }
+  yield* compose(n);
+  return total;
+}
+
+/**
+ * Integer compositions i.e. ordered sums of positive integers
+ *
+ * Examples:
+ * ```ts
+ * compositions(3)  // [[1, 1, 1], [1, 2], [2, 1], [3]]
+ * compositions(4, 2)  // [[1, 3], [2, 2], [3, 1]]
+ * ```
+ * @param n Positive integer to decompose.
+ * @param k Number of parts. All numbers of parts are produced if not given.
+ * @returns Array of arrays of positive integers that sum to n.
+ */
+export function compositions(n: number, k?: number): number[][] {
+  return [...iterCompositions(n, k)];
+}
+
+/**
+ * Integer partitions i.e. unordered sums of positive integers
+ * @param n Positive integer to decompose.
+ * @param maxPart Largest part allowed. Defaults to n.
+ * @returns Generator of non-increasing arrays of positive integers that sum to n.
+ */
+export function* iterPartitions(
+  n: number,
+  maxPart = n,
+): Generator<number[], number, undefined> {
+  if (n <= 0 || maxPart <= 0) {
+    return 0;
+  }
+  const current: number[] = [];
+  let total = 0;
+  function* partition(remainder: number, largest: number): Generator<number[]> {
+    if (!remainder) {
+      total++;
+      yield [...current];
+      return;
+    }
+    for (let part = Math.min(remainder, largest); part >= 1; part--) {
+      current.push(part);
+      yield* partition(remainder - part, part);
+      current.pop();
+    }
+  }
+  yield* partition(n, maxPart);
+  return total;
+}
+
+/**
+ * Integer partitions i.e. unordered sums of positive integers
+ *
+ * Examples:
+ * ```ts
+ * partitions(4)  // [[4], [3, 1], [2, 2], [2, 1, 1], [1, 1, 1, 1]]
+ * ```
+ * @param n Positive integer to decompose.
+ * @param maxPart Largest part allowed. Defaults to n.
+ * @returns Array of non-increasing arrays of positive integers that sum to n.
+ */
+export function partitions(n: number, maxPart = n): number[][] {
+  return [...iterPartitions(n, maxPart)];
+}
@@ -0,0 +1,221 @@
+import {Fraction, FractionValue} from './fraction.js';
+import {Monzo, monzoToFraction} from './monzo.js';
+import {LOG_PRIMES, PRIMES} from './primes.js';
+import {monzoToCents} from './core.js';
+import {dot} from './number-array.js';
+import {finckePohst, lenstraLenstraLovasz} from './basis.js';
+import {Subgroup} from './subgroup.js';
+import {HeightMeasure} from './interval-sets.js';
+
+/**
+ * Names of commonly used commas keyed by the fraction larger than unison.
+ */
+export const COMMA_NAMES: Record<string, string> = {
+  // 3-limit
+  '256/243': 'Pythagorean limma',
+  '531441/524288': 'Pythagorean comma',
+  // 5-limit
+  '25/24': 'classic chromatic semitone',
+  '135/128': 'major chroma',
+  '16875/16384': 'negri comma',
+  '648/625': 'major diesis',
+  '250/243': 'maximal diesis',
+  '128/125': 'diesis',
+  '3125/3072': 'magic comma',
+  '6561/6250': 'ripple comma',
+  '20000/19683': 'minimal diesis',
+  '81/80': 'syntonic comma',
+  '2048/2025': 'diaschisma',
+  '393216/390625': 'würschmidt comma',
+  '2109375/2097152': 'semicomma',
+  '15625/15552': 'kleisma',
+  '1600000/1594323': 'amity comma',
+  '78732/78125': 'sensipent comma',
+  '32805/32768': 'schisma',
+  // 7-limit
+  '28/27': 'trienstonic comma',
+  '36/35': 'septimal quarter tone',
+  '49/48': 'slendro diesis',
+  '50/49': 'jubilisma',
+  '16807/16384': 'cloudy comma',
+  '64/63': "Archytas' comma",
+  '875/864': 'keema',
+  '686/675': 'senga',
+  '245/243': 'sensamagic comma',
+  '2430/2401': 'nuwell comma',
+  '126/125': 'starling comma',
+  '4000/3969': 'octagar',
+  '1029/1024': 'gamelisma',
+  '225/224': 'marvel comma',
+  '1728/1715': 'orwellisma',
+  '3136/3125': 'hemimean comma',
+  '5120/5103': 'hemifamity comma',
+  '6144/6125': 'porwell comma',
+  '10976/10935': 'hemimage comma',
+  '65625/65536': 'horwell comma',
+  '2401/2400': 'breedsma',
+  '4375/4374': 'ragisma',
+  // 11-limit
+  '33/32': 'undecimal quarter tone',
+  '99/98': 'mothwellsma',
+  '100/99': 'ptolemisma',
+  '121/120': 'biyatisma',
+  '176/175': 'valinorsma',
+  '243/242': 'rastma',
+  '385/384': 'keenanisma',
+  '441/440': 'werckisma',
+  '540/539': 'swetisma',
+  '896/891': 'pentacircle comma',
+  '3025/3024': 'lehmerisma',
+  '9801/9800': 'kalisma',
+  // 13-limit
+  '105/104': 'animist comma',
+  '144/143': 'grossma',
+  '169/168': 'buzurgisma',
+  '196/195': 'mynucuma',
+  '325/324': 'marveltwin',
+  '351/350': 'ratwolfsma',
+  '352/351': 'minthma',
+  '364/363': 'gentle comma',
+  '625/624': 'tunbarsma',
+  '676/675': 'island comma',
+  '1001/1000': 'fairytale comma',
+  '2080/2079': 'ibnsinma',
+  '4096/4095': 'schismina',
+  '10648/10647': 'harmonisma',
+  // 17-limit
+  '256/255': 'septendecimal kleisma',
+};
+
+/**
+ * Look up the common name of a comma.
+ * ```ts
+ * commaName('81/80')  // "syntonic comma"
+ * commaName('80/81')  // "syntonic comma"
+ * ```
+ * @param value Comma or its inverse.
+ * @returns The name of the comma or `undefined` if not known.
+ */
+export function commaName(value: FractionValue) {
+  let comma = new Fraction(value).abs();
+  if (comma.compare(1) < 0) {
+    comma = comma.inverse();
+  }
+  return COMMA_NAMES[comma.toFraction()] as string | undefined;
+}
+
+/**
+ * Comma found by {@link findCommas}.
+ */
+export type CommaSearchResult = {
+  /** The comma as a fraction larger than unison. */
+  comma: Fraction;
+  /** Exponents of the basis elements of the subgroup. */
+  monzo: Monzo;
+  /** Size of the comma in cents. */
+  cents: number;
+  /** Height of the comma. */
+  height: number;
+  /** Common name of the comma if known. */
+  name?: string;
+};
+
+// Absolute tolerance for comparing heights and squared lengths.
+const SEARCH_EPSILON = 1e-9;
+
+/**
+ * Find all commas of a subgroup within bounds of size and height.
+ *
+ * The subgroup is embedded in a lattice weighted by the height measure together with a scaled cents coordinate.
+ * The lattice is reduced using {@link lenstraLenstraLovasz} and all points within the ellipsoid containing the bounded commas are enumerated using the Fincke–Pohst algorithm.
+ * ```ts
+ * findCommas(5, 50, Math.log(1e7)).map(r => r.comma.toFraction())  // ["81/80", "128/125", "250/243", "2048/2025", "3125/3072"]
+ * ```
+ * @param subgroup Subgroup or prime limit to search in.
+ * @param maxCents Largest size of the commas in cents.
+ * @param maxHeight Largest height of the commas. Tenney height is the natural logarithm of the product of the numerator and the denominator.
+ * @param height Height measure.
+ * @returns Commas larger than unison sorted by increasing height and then size.
+ * @throws An error if the bounds are not positive.
+ */
+export function findCommas(
+  subgroup: Subgroup | string | number,
+  maxCents: number,
+  maxHeight: number,
+  height: HeightMeasure = 'tenney',
+): CommaSearchResult[] {
+  if (typeof subgroup === 'number') {
+    subgroup = Subgroup.fromPrimeLimit(subgroup);
+  } else if (typeof subgroup === 'string') {
+    subgroup = new Subgroup(subgroup);
+  }
+  if (!(maxCents > 0) || !(maxHeight > 0)) {
+    throw new Error('Search bounds must be positive');
+  }
+  const sg = subgroup;
+  const weights = PRIMES.slice(0, subgroup.numberOfComponents).map((p, i) =>
+    height === 'tenney' ? LOG_PRIMES[i] : p,
+  );
+  // Weighted monzos have Euclidean norms bounded by their height.
+  // Commas within both bounds lie in an ellipsoid whose volume is minimized when the cents coordinate is scaled down by sqrt(dimension - 1).
+  const dimension = subgroup.basis.length;
+  const centsWeight =
+    maxHeight / maxCents / Math.sqrt(Math.max(1, dimension - 1));
+  const embedded = subgroup.basisMonzos.map(monzo => [
+    ...monzo.map((e, i) => e * weights[i]),
+    monzoToCents(monzo) * centsWeight,
+  ]);
+  const {basis} = lenstraLenstraLovasz(embedded, 0.99);
+  const primeMonzos = basis.map(row =>
+    weights.map((weight, i) => Math.round(row[i] / weight)),
+  );
+  const n = basis.length;
+  const radiusSquared = maxHeight * maxHeight + (maxCents * centsWeight) ** 2;
+
+  const result: CommaSearchResult[] = [];
+
+  function visit(coefficients: number[]) {
+    const monzo: Monzo = Array(weights.length).fill(0);
+    for (let i = 0; i < n; ++i) {
+      if (coefficients[i]) {
+        for (let j = 0; j < weights.length; ++j) {
+          monzo[j] += coefficients[i] * primeMonzos[i][j];
+        }
+      }
+    }
+    let cents = monzoToCents(monzo);
+    if (cents < 0) {
+      for (let i = 0; i < monzo.length; ++i) {
+        monzo[i] = -monzo[i];
+      }
+      cents = -cents;
+    }
+    if (!cents || cents > maxCents + SEARCH_EPSILON) {
+      return;
+    }
+    const commaHeight = dot(
+      monzo.map(e => Math.abs(e)),
+      weights,
+    );
+    if (commaHeight > maxHeight + SEARCH_EPSILON) {
+      return;
+    }
+    const comma = monzoToFraction(monzo);
+    const entry: CommaSearchResult = {
+      comma,
+      monzo: sg.fromPrimeMonzo(monzo),
+      cents,
+      height: commaHeight,
+    };
+    const name = commaName(comma);
+    if (name !== undefined) {
+      entry.name = name;
+    }
+    result.push(entry);
+  }
+
+  // Only one of each pair of opposite points is visited.
+  finckePohst(basis, radiusSquared, visit, true);
+  result.sort((a, b) => a.height - b.height || a.cents - b.cents);
+  return result;
+}
@@ -148,22 +148,38 @@ export function modInv(a: number, b: number, strict = true) {
   return mmod(coefA, b);
 }
 
+// Canonical key of a fraction in lowest terms.
+function fractionKey(value: Fraction) {
+  return `${value.s * value.n}/${value.d}`;
+}
+
 /**
- * Collection of unique fractions.
+ * Collection of unique fractions with constant-time lookup.
  */
 export class FractionSet extends Set<Fraction> {
+  private index: Map<string, Fraction>;
+
+  /**
+   * Construct a new collection of unique fractions.
+   * @param values Initial values of the set.
+   */
+  constructor(values?: Iterable<FractionValue> | null) {
+    super();
+    this.index = new Map();
+    if (values) {
+      for (const value of values) {
+        this.add(value);
+      }
+    }
+  }
+
   /**
    * Check `value` membership.
    * @param value Value to check for membership.
    * @returns A boolean asserting whether an element is present with the given value in the `FractionSet` object or not.
    */
-  has(value: Fraction) {
-    for (const other of this) {
-      if (other.equals(value)) {
-        return true;
-      }
-    }
-    return false;
+  has(value: FractionValue) {
+    return this.index.has(fractionKey(new Fraction(value)));
   }
 
   /**
@@ -171,11 +187,14 @@ export class FractionSet extends Set<Fraction> {
    * @param value Value to append.
    * @returns The `FractionSet` object with added value.
    */
-  add(value: Fraction) {
-    if (this.has(value)) {
+  add(value: FractionValue) {
+    const fraction = value instanceof Fraction ? value : new Fraction(value);
+    const key = fractionKey(fraction);
+    if (this.index.has(key)) {
       return this;
     }
-    super.add(value);
+    this.index.set(key, fraction);
+    super.add(fraction);
     return this;
   }
 
@@ -184,13 +203,196 @@ export class FractionSet extends Set<Fraction> {
    * @param value Value to remove.
    * @returns A boolean asserting whether an element was successfully removed or not. `FractionSet.prototype.has(value)` will return `false` afterwards.
    */
-  delete(value: Fraction) {
-    for (const other of this) {
-      if (other.equals(value)) {
-        return super.delete(other);
+  delete(value: FractionValue) {
+    const key = fractionKey(new Fraction(value));
+    const other = this.index.get(key);
+    if (other === undefined) {
+      return false;
+    }
+    this.index.delete(key);
+    return super.delete(other);
+  }
+
+  /**
+   * Removes all elements from the `FractionSet` object.
+   */
+  clear() {
+    this.index.clear();
+    super.clear();
+  }
+
+  /**
+   * Combine the set with other values.
+   * @param other Values to include.
+   * @returns A new `FractionSet` with the elements of both.
+   */
+  union(other: Iterable<FractionValue>) {
+    const result = new FractionSet(this);
+    for (const value of other) {
+      result.add(value);
+    }
+    return result;
+  }
+
+  /**
+   * Find the elements in common with other values.
+   * @param other Values to compare against.
+   * @returns A new `FractionSet` with the elements that are also in `other`.
+   */
+  intersection(other: Iterable<FractionValue>) {
+    const result = new FractionSet();
+    for (const value of other) {
+      const key = fractionKey(new Fraction(value));
+      const fraction = this.index.get(key);
+      if (fraction !== undefined) {
+        result.add(fraction);
       }
     }
-    return false;
+    return result;
+  }
+
+  /**
+   * Remove other values from the set.
+   * @param other Values to exclude.
+   * @returns A new `FractionSet` with the elements that are not in `other`.
+   */
+  difference(other: Iterable<FractionValue>) {
+    const result = new FractionSet(this);
+    for (const value of other) {
+      result.delete(value);
+    }
+    return result;
+  }
+
+  /**
+   * Multiply every element with every other value.
+   * @param other Values to multiply with.
+   * @returns A new `FractionSet` with all pairwise products.
+   */
+  product(other: Iterable<FractionValue>) {
+    const factors = [...other];
+    const result = new FractionSet();
+    for (const fraction of this) {
+      for (const factor of factors) {
+        result.add(fraction.mul(factor));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Close the set under multiplication within a bounded region.
+   * ```ts
+   * new FractionSet(['3/2']).productClosure(f => tenneyHeight(f) <= Math.log(100))  // {3/2, 9/4}
+   * ```
+   * @param bound Predicate that products must satisfy to be included.
+   * @param maxSize Maximum number of elements in the result.
+   * @returns A new `FractionSet` containing the elements and their products that satisfy the bound.
+   * @throws An error if the closure grows beyond `maxSize` elements.
+   */
+  productClosure(bound: (value: Fraction) => boolean, maxSize = 10000) {
+    const result = new FractionSet(this);
+    const generators = [...this];
+    let frontier = [...this];
+    while (frontier.length) {
+      const next: Fraction[] = [];
+      for (const fraction of frontier) {
+        for (const generator of generators) {
+          const product = fraction.mul(generator);
+          if (!result.has(product) && bound(product)) {
+            result.add(product);
+            next.push(product);
+            if (result.size > maxSize) {
+              throw new Error('Product closure exceeds maximum size');
+            }
+          }
+        }
+      }
+      frontier = next;
+    }
+    return result;
+  }
+}
+
+/**
+ * Mapping from fractions to values with constant-time lookup.
+ */
+export class FractionMap<V> extends Map<Fraction, V> {
+  private index: Map<string, Fraction>;
+
+  /**
+   * Construct a new mapping from fractions to values.
+   * @param entries Initial key-value pairs of the map.
+   */
+  constructor(entries?: Iterable<readonly [FractionValue, V]> | null) {
+    super();
+    this.index = new Map();
+    if (entries) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Check `key` membership.
+   * @param key Key to check for membership.
+   * @returns A boolean asserting whether an element with the given key is present in the `FractionMap` object or not.
+   */
+  has(key: FractionValue) {
+    return this.index.has(fractionKey(new Fraction(key)));
+  }
+
+  /**
+   * Obtain the value associated to the `key`.
+   * @param key Key of the element.
+   * @returns The associated value or `undefined` if the key is not present.
+   */
+  get(key: FractionValue) {
+    const fraction = this.index.get(fractionKey(new Fraction(key)));
+    return fraction === undefined ? undefined : super.get(fraction);
+  }
+
+  /**
+   * Associate the `value` to the `key`.
+   * @param key Key of the element.
+   * @param value Value of the element.
+   * @returns The `FractionMap` object.
+   */
+  set(key: FractionValue, value: V) {
+    const fraction = key instanceof Fraction ? key : new Fraction(key);
+    const hash = fractionKey(fraction);
+    const existing = this.index.get(hash);
+    if (existing === undefined) {
+      this.index.set(hash, fraction);
+      super.set(fraction, value);
+    } else {
+      super.set(existing, value);
+    }
+    return this;
+  }
+
+  /**
+   * Removes the element associated to the `key`.
+   * @param key Key of the element.
+   * @returns A boolean asserting whether an element was successfully removed or not.
+   */
+  delete(key: FractionValue) {
+    const hash = fractionKey(new Fraction(key));
+    const existing = this.index.get(hash);
+    if (existing === undefined) {
+      return false;
+    }
+    this.index.delete(hash);
+    return super.delete(existing);
+  }
+
+  /**
+   * Removes all elements from the `FractionMap` object.
+   */
+  clear() {
+    this.index.clear();
+    super.clear();
   }
 }
 
@@ -514,3 +716,126 @@ export function wilsonHeight(
   }
   return result;
 }
+
+// Prime factorization of the absolute value as a map from primes to exponents.
+function primeExponents(value: Monzo | FractionValue | Map<number, number>) {
+  if (Array.isArray(value)) {
+    const result = new Map<number, number>();
+    for (let i = 0; i < value.length; ++i) {
+      if (value[i]) {
+        result.set(PRIMES[i], value[i]);
+      }
+    }
+    return result;
+  }
+  const result = new Map(value instanceof Map ? value : primeFactorize(value));
+  result.delete(-1);
+  return result;
+}
+
+/**
+ * Given fraction p/q calculate abs(p*q).
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @returns The Benedetti height of the number.
+ */
+export function benedettiHeight(
+  value: Monzo | FractionValue | Map<number, number>,
+) {
+  const exponents = primeExponents(value);
+  if (exponents.has(0)) {
+    return Infinity;
+  }
+  let result = 1;
+  for (const [prime, exponent] of exponents) {
+    result *= prime ** Math.abs(exponent);
+  }
+  return result;
+}
+
+/**
+ * Given fraction p/q calculate log(max(abs(p), q)).
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @returns The Weil height of the number.
+ */
+export function weilHeight(value: Monzo | FractionValue | Map<number, number>) {
+  const exponents = primeExponents(value);
+  if (exponents.has(0)) {
+    return Infinity;
+  }
+  let numerator = 0;
+  let denominator = 0;
+  for (const [prime, exponent] of exponents) {
+    if (exponent > 0) {
+      numerator += exponent * Math.log(prime);
+    } else {
+      denominator -= exponent * Math.log(prime);
+    }
+  }
+  return Math.max(numerator, denominator);
+}
+
+/**
+ * Given fraction p/q calculate log(max(abs(p), q)) once all powers of 2 are removed i.e. the logarithm of the odd limit.
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @returns The Kees height of the number.
+ */
+export function keesHeight(value: Monzo | FractionValue | Map<number, number>) {
+  const exponents = primeExponents(value);
+  exponents.delete(2);
+  return weilHeight(exponents);
+}
+
+/**
+ * Given fraction p/q calculate Euler's gradus suavitatis of p*q i.e. 1 + sum of (prime - 1) over prime factors with repetition.
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @returns The degree of sweetness of the number. Smaller values are more consonant.
+ */
+export function eulerGradus(
+  value: Monzo | FractionValue | Map<number, number>,
+) {
+  const exponents = primeExponents(value);
+  if (exponents.has(0)) {
+    return Infinity;
+  }
+  let result = 1;
+  for (const [prime, exponent] of exponents) {
+    result += Math.abs(exponent) * (prime - 1);
+  }
+  return result;
+}
+
+/**
+ * Calculate the Tenney-weighted L^p norm of the prime exponents of a number measured in octaves.
+ * With p = 1 this is the Tenney height in base 2.
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @param p Exponent of the norm. Use `Infinity` for the maximum norm.
+ * @returns The weighted norm of the number.
+ */
+export function tenneyNorm(
+  value: Monzo | FractionValue | Map<number, number>,
+  p = 1,
+) {
+  const exponents = primeExponents(value);
+  if (exponents.has(0)) {
+    return Infinity;
+  }
+  let result = 0;
+  for (const [prime, exponent] of exponents) {
+    const weighted = Math.abs(exponent * Math.log2(prime));
+    if (p === Infinity) {
+      result = Math.max(result, weighted);
+    } else {
+      result += weighted ** p;
+    }
+  }
+  return p === Infinity ? result : result ** (1 / p);
+}
+
+/**
+ * Calculate the Tenney-Euclidean norm of the prime exponents of a number measured in octaves.
+ * @param value Rational number, an array of its prime exponents or a `Map` of its prime exponents.
+ * @returns The TE norm of the number.
+ */
+export function teNorm(value: Monzo | FractionValue | Map<number, number>) {
+  return tenneyNorm(value, 2);
+}
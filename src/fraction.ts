@@ -9,8 +9,35 @@ export type UnsignedFraction = {n: number; d: number};
 // Explicitly drop [number, number] because it overlaps with monzos
 export type FractionValue = Fraction | UnsignedFraction | number | string;
 
+/**
+ * Rendering style for {@link Fraction.format}.
+ *
+ * - `'repeating'`: All digits with the repeating part enclosed in apostrophes e.g. `"1.'3'"`.
+ * - `'ratio'`: Numerator and denominator e.g. `"4/3"`.
+ * - `'mixed'`: Whole part followed by a proper fraction e.g. `"1 1/3"`.
+ * - `'fixed'`: Decimal rounded to a fixed number of digits e.g. `"1.333"`.
+ * - `'scientific'`: Mantissa and a power of ten e.g. `"1.'3'e0"` or `"1.33e0"` with a precision given.
+ */
+export type FractionFormatStyle =
+  | 'repeating'
+  | 'ratio'
+  | 'mixed'
+  | 'fixed'
+  | 'scientific';
+
+/**
+ * Options for {@link Fraction.format}.
+ */
+export type FractionFormatOptions = {
+  /** Rendering style. Defaults to `'repeating'`. */
+  style?: FractionFormatStyle;
+  /** Number of digits after the decimal point in `'fixed'` and `'scientific'` styles. Scientific notation is exact if not given. Fixed notation defaults to 3. */
+  precision?: number;
+};
+
 const MAX_CONTINUED_LENGTH = 1000;
 const MAX_CYCLE_LENGTH = 128;
+const DEFAULT_FIXED_PRECISION = 3;
 
 /**
  * Greatest common divisor of two integers.
@@ -444,6 +471,93 @@ export class Fraction {
     return result + decimals + '...';
   }
 
+  /**
+   * Creates a string representation of a fraction in the given style.
+   *
+   * The `'repeating'`, `'ratio'` and exact `'scientific'` styles can be parsed back using the string constructor without loss (provided that the repeating part is short enough for the constructor to accept).
+   *
+   * Examples:
+   * ```ts
+   * new Fraction(3, 2).format({style: 'ratio'})                     // "3/2"
+   * new Fraction(3, 2).format({style: 'mixed'})                     // "1 1/2"
+   * new Fraction(3, 2).format({style: 'fixed'})                     // "1.500"
+   * new Fraction(3, 2000).format({style: 'scientific'})             // "1.5e-3"
+   * new Fraction(1, 3).format({style: 'scientific', precision: 2})  // "3.33e-1"
+   * ```
+   * @param options Formatting options.
+   * @returns The formatted string.
+   */
+  format(options?: FractionFormatOptions) {
+    const style = options?.style ?? 'repeating';
+    const precision = options?.precision;
+    if (
+      precision !== undefined &&
+      (!Number.isInteger(precision) || precision < 0)
+    ) {
+      throw new Error('Precision must be a non-negative integer');
+    }
+    const sign = this.s < 0 ? '-' : '';
+    if (style === 'repeating') {
+      return this.toString();
+    } else if (style === 'ratio') {
+      return this.toFraction();
+    } else if (style === 'mixed') {
+      const whole = Math.floor(this.n / this.d);
+      const remainder = this.n % this.d;
+      if (!remainder) {
+        return `${sign}${whole}`;
+      }
+      if (!whole) {
+        return `${sign}${remainder}/${this.d}`;
+      }
+      return `${sign}${whole} ${remainder}/${this.d}`;
+    } else if (style === 'fixed') {
+      const digits = roundedDigits(
+        BigInt(this.n),
+        BigInt(this.d),
+        precision ?? DEFAULT_FIXED_PRECISION,
+      );
+      if (!/[1-9]/.test(digits)) {
+        return digits;
+      }
+      return sign + digits;
+    } else if (style === 'scientific') {
+      if (!this.n) {
+        return precision ? `0.${'0'.repeat(precision)}e0` : '0e0';
+      }
+      let n = BigInt(this.n);
+      let d = BigInt(this.d);
+      // Initial guess refined using exact comparisons.
+      let exponent = Math.floor(Math.log10(this.n) - Math.log10(this.d));
+      if (exponent > 0) {
+        d *= 10n ** BigInt(exponent);
+      } else if (exponent < 0) {
+        n *= 10n ** BigInt(-exponent);
+      }
+      while (n >= 10n * d) {
+        d *= 10n;
+        exponent++;
+      }
+      while (n < d) {
+        n *= 10n;
+        exponent--;
+      }
+      let mantissa: string;
+      if (precision === undefined) {
+        mantissa = repeatingDigits(n, d);
+      } else {
+        mantissa = roundedDigits(n, d, precision);
+        // Rounding may carry over to the next power of ten.
+        if (mantissa.startsWith('10')) {
+          exponent++;
+          mantissa = roundedDigits(n, 10n * d, precision);
+        }
+      }
+      return `${sign}${mantissa}e${exponent}`;
+    }
+    throw new Error(`Unrecognized format style '${style}'`);
+  }
+
   /**
    * Serialize the fraction to a JSON compatible object.
    * @returns An object with properties 'n', and 'd' corresponding to a signed numerator and an unsigned denominator respectively.
@@ -1338,3 +1452,40 @@ export class Fraction {
     return other_.pow(exponent);
   }
 }
+
+// Decimal digits of n/d rounded half away from zero to a fixed number of decimals.
+function roundedDigits(n: bigint, d: bigint, precision: number) {
+  const scale = 10n ** BigInt(precision);
+  const scaled = ((2n * n * scale + d) / (2n * d)).toString();
+  if (!precision) {
+    return scaled;
+  }
+  const padded = scaled.padStart(precision + 1, '0');
+  return `${padded.slice(0, -precision)}.${padded.slice(-precision)}`;
+}
+
+// All decimal digits of n/d with the repeating part enclosed in apostrophes.
+function repeatingDigits(n: bigint, d: bigint) {
+  let result = (n / d).toString();
+  let remainder = n % d;
+  if (!remainder) {
+    return result;
+  }
+  result += '.';
+  let decimals = '';
+  const history = [remainder];
+  for (let i = 0; i < MAX_CYCLE_LENGTH; ++i) {
+    remainder *= 10n;
+    decimals += (remainder / d).toString();
+    remainder %= d;
+    if (!remainder) {
+      return result + decimals;
+    }
+    const j = history.indexOf(remainder);
+    if (j >= 0) {
+      return result + decimals.slice(0, j) + "'" + decimals.slice(j) + "'";
+    }
+    history.push(remainder);
+  }
+  return result + decimals + '...';
+}
@@ -0,0 +1,247 @@
+import {Fraction} from './fraction.js';
+import {valueToCents} from './conversion.js';
+import {fareySequence, tenneyHeight} from './core.js';
+
+/**
+ * Weighting of the ratios in harmonic entropy calculations.
+ *
+ * - `'tenney'`: Ratio n/d has weight 1/sqrt(n*d).
+ * - `'weil'`: Ratio n/d has weight 1/max(n, d).
+ * - `'uniform'`: All ratios have weight 1.
+ */
+export type HarmonicEntropyWeighting = 'tenney' | 'weil' | 'uniform';
+
+/**
+ * Options for harmonic entropy calculations.
+ */
+export type HarmonicEntropyOptions = {
+  /** Standard deviation of the Gaussian spreading function in cents. Defaults to 17. */
+  s?: number;
+  /** Order of the Farey sequence used to generate the ratios i.e. the largest numerator or denominator. Defaults to 100. */
+  order?: number;
+  /** Maximum Tenney height of the ratios. Defaults to `Infinity`. */
+  maxHeight?: number;
+  /** Weighting of the ratios. Defaults to `'tenney'`. */
+  weighting?: HarmonicEntropyWeighting;
+  /** Spacing of the grid in cents used by {@link harmonicEntropyCurve} and {@link HarmonicEntropyTable}. Defaults to 1. */
+  resolution?: number;
+};
+
+/**
+ * Ratio participating in harmonic entropy calculations.
+ */
+export type WeightedRatio = {
+  /** The ratio. */
+  ratio: Fraction;
+  /** Size of the ratio in cents. */
+  cents: number;
+  /** Unnormalized weight of the ratio. */
+  weight: number;
+};
+
+// Number of standard deviations after which the spreading function is truncated.
+const KERNEL_WIDTH = 6;
+
+function ratioWeight(ratio: Fraction, weighting: HarmonicEntropyWeighting) {
+  if (weighting === 'tenney') {
+    return Math.exp(-0.5 * tenneyHeight(ratio));
+  } else if (weighting === 'weil') {
+    return 1 / Math.max(ratio.n, ratio.d);
+  } else if (weighting === 'uniform') {
+    return 1;
+  }
+  throw new Error(`Unrecognized weighting '${weighting}'`);
+}
+
+/**
+ * Construct the weighted set of ratios used in harmonic entropy calculations.
+ * ```ts
+ * harmonicEntropyRatios({order: 3}).map(r => r.ratio.toFraction())  // ["1", "3/2", "2", "3"]
+ * ```
+ * @param options Order of the Farey sequence, height bound and weighting of the ratios.
+ * @returns Ratios n/d ≥ 1 sorted by size.
+ */
+export function harmonicEntropyRatios(
+  options: HarmonicEntropyOptions = {},
+): WeightedRatio[] {
+  const order = options.order ?? 100;
+  const maxHeight = options.maxHeight ?? Infinity;
+  const weighting = options.weighting ?? 'tenney';
+  const result: WeightedRatio[] = [];
+  for (const fraction of fareySequence(order)) {
+    if (!fraction.n || tenneyHeight(fraction) > maxHeight) {
+      continue;
+    }
+    const ratio = fraction.inverse();
+    result.push({
+      ratio,
+      cents: valueToCents(ratio.valueOf()),
+      weight: ratioWeight(ratio, weighting),
+    });
+  }
+  return result.reverse();
+}
+
+/**
+ * Calculate the harmonic entropy of an interval i.e. the Shannon entropy of the probabilities of the ratios being heard for the interval.
+ * ```ts
+ * harmonicEntropy(701.955) < harmonicEntropy(650)  // true
+ * ```
+ * @param cents Size of the interval in cents.
+ * @param options Spread of the spreading function and the ratio set parameters.
+ * @param ratios Precomputed ratios to reuse between calls.
+ * @returns The harmonic entropy of the interval in nats.
+ */
+export function harmonicEntropy(
+  cents: number,
+  options: HarmonicEntropyOptions = {},
+  ratios?: WeightedRatio[],
+) {
+  ratios ??= harmonicEntropyRatios(options);
+  const s = options.s ?? 17;
+  let total = 0;
+  let entropy = 0;
+  for (const {cents: center, weight} of ratios) {
+    const t = (cents - center) / s;
+    const probability = weight * Math.exp(-0.5 * t * t);
+    if (probability) {
+      total += probability;
+      entropy -= probability * Math.log(probability);
+    }
+  }
+  return Math.log(total) + entropy / total;
+}
+
+/**
+ * Calculate harmonic entropy over an evenly spaced range of intervals.
+ * The weights of the ratios are distributed to the two nearest grid points and convolved with a truncated spreading function so the cost is independent of the number of ratios.
+ * @param minCents Smallest interval of the range in cents.
+ * @param maxCents Largest interval of the range in cents.
+ * @param options Spread of the spreading function, grid resolution and the ratio set parameters.
+ * @param ratios Precomputed ratios to reuse between calls.
+ * @returns Harmonic entropy in nats at `minCents + i * resolution` for each grid point up to `maxCents`.
+ * @throws An error if the range is empty or the resolution is not positive.
+ */
+export function harmonicEntropyCurve(
+  minCents: number,
+  maxCents: number,
+  options: HarmonicEntropyOptions = {},
+  ratios?: WeightedRatio[],
+) {
+  const s = options.s ?? 17;
+  const resolution = options.resolution ?? 1;
+  if (!(resolution > 0)) {
+    throw new Error('Resolution must be positive');
+  }
+  if (!(minCents <= maxCents)) {
+    throw new Error('Range must be non-empty');
+  }
+  ratios ??= harmonicEntropyRatios(options);
+  const size = Math.floor((maxCents - minCents) / resolution + 1e-9) + 1;
+  const radius = Math.ceil((KERNEL_WIDTH * s) / resolution);
+
+  // Weights and weighted log-weights on a grid padded by the kernel radius.
+  const length = size + 2 * radius;
+  const weights = new Float64Array(length);
+  const logWeights = new Float64Array(length);
+  const offset = minCents - radius * resolution;
+  for (const {cents, weight} of ratios) {
+    const position = (cents - offset) / resolution;
+    const index = Math.floor(position);
+    if (index < 0 || index + 1 >= length || !weight) {
+      continue;
+    }
+    const fraction = position - index;
+    const weightLog = weight * Math.log(weight);
+    weights[index] += (1 - fraction) * weight;
+    weights[index + 1] += fraction * weight;
+    logWeights[index] += (1 - fraction) * weightLog;
+    logWeights[index + 1] += fraction * weightLog;
+  }
+
+  // The spreading function and its product with its own logarithm.
+  const kernel = new Float64Array(2 * radius + 1);
+  const logKernel = new Float64Array(2 * radius + 1);
+  for (let i = -radius; i <= radius; ++i) {
+    const t = (i * resolution) / s;
+    const logValue = -0.5 * t * t;
+    kernel[i + radius] = Math.exp(logValue);
+    logKernel[i + radius] = kernel[i + radius] * logValue;
+  }
+
+  // With p_i = w_i * g_i / Z the entropy is log(Z) - sum(w_i * g_i * log(w_i * g_i)) / Z.
+  const result: number[] = [];
+  for (let i = 0; i < size; ++i) {
+    let total = 0;
+    let weighted = 0;
+    for (let j = 0; j <= 2 * radius; ++j) {
+      const weight = weights[i + j];
+      if (weight) {
+        total += weight * kernel[j];
+        weighted += logWeights[i + j] * kernel[j] + weight * logKernel[j];
+      }
+    }
+    result.push(Math.log(total) - weighted / total);
+  }
+  return result;
+}
+
+/**
+ * Precomputed harmonic entropy curve for fast evaluation at arbitrary intervals.
+ */
+export class HarmonicEntropyTable {
+  /** Smallest interval of the table in cents. */
+  minCents: number;
+  /** Spacing of the table in cents. */
+  resolution: number;
+  /** Harmonic entropy in nats at each grid point. */
+  values: number[];
+
+  /**
+   * Precompute harmonic entropy over a range of intervals.
+   * ```ts
+   * const table = new HarmonicEntropyTable(0, 1200);
+   * table.valueAt(701.955);
+   * ```
+   * @param minCents Smallest interval of the table in cents.
+   * @param maxCents Largest interval of the table in cents.
+   * @param options Spread of the spreading function, grid resolution and the ratio set parameters.
+   * @throws An error if the range is empty or the resolution is not positive.
+   */
+  constructor(
+    minCents = 0,
+    maxCents = 1200,
+    options: HarmonicEntropyOptions = {},
+  ) {
+    this.minCents = minCents;
+    this.resolution = options.resolution ?? 1;
+    this.values = harmonicEntropyCurve(minCents, maxCents, options);
+  }
+
+  /** Largest interval of the table in cents. */
+  get maxCents() {
+    return this.minCents + (this.values.length - 1) * this.resolution;
+  }
+
+  /**
+   * Evaluate harmonic entropy by linear interpolation between grid points.
+   * @param cents Size of the interval in cents.
+   * @returns The interpolated harmonic entropy in nats.
+   * @throws An error if the interval is outside the range of the table.
+   */
+  valueAt(cents: number) {
+    const position = (cents - this.minCents) / this.resolution;
+    const last = this.values.length - 1;
+    if (!(position >= -1e-9 && position <= last + 1e-9)) {
+      throw new Error(`${cents} cents is outside the table`);
+    }
+    if (!last) {
+      return this.values[0];
+    }
+    const index = Math.max(0, Math.min(last - 1, Math.floor(position)));
+    const fraction = position - index;
+    return (
+      (1 - fraction) * this.values[index] + fraction * this.values[index + 1]
+    );
+  }
+}
@@ -1,5 +1,6 @@
 export * from './core.js';
 export * from './fraction.js';
+export * from './big-fraction.js';
 export * from './primes.js';
 export * from './conversion.js';
 export * from './combinations.js';
@@ -7,4 +8,21 @@ export * from './monzo.js';
 export * from './approximation.js';
 export * from './number-array.js';
 export * from './matrix.js';
+export * from './scala.js';
+export * from './mts.js';
+export * from './tun.js';
+export * from './subgroup.js';
+export * from './temperament.js';
+export * from './val.js';
+export * from './wedgie.js';
+export * from './optimal-tuning.js';
+export * from './temperament-search.js';
+export * from './mos.js';
+export * from './necklace.js';
+export * from './interval-sets.js';
+export * from './lattice.js';
+export * from './harmonic-entropy.js';
+export * from './arithmetic.js';
+export * from './smooth-numbers.js';
+export * from './comma-search.js';
 export {sum} from './polyfills/sum-precise.js';
@@ -0,0 +1,172 @@
+import {Fraction, gcd} from './fraction.js';
+import {LOG_PRIMES, PRIMES} from './primes.js';
+import {FractionSet} from './core.js';
+
+/**
+ * Measure of complexity used to bound prime limit sets.
+ *
+ * - `'tenney'`: Natural logarithm of the product of the numerator and the denominator.
+ * - `'wilson'`: Sum of prime factors with repetition of the numerator and the denominator.
+ */
+export type HeightMeasure = 'tenney' | 'wilson';
+
+// Absolute tolerance for comparing Tenney heights.
+const HEIGHT_EPSILON = 1e-9;
+
+function sortFractions(fractions: Fraction[]) {
+  return fractions.sort((a, b) => a.compare(b));
+}
+
+function octaveReduce(fraction: Fraction) {
+  while (fraction.compare(2) >= 0) {
+    fraction = fraction.div(2);
+  }
+  while (fraction.compare(1) < 0) {
+    fraction = fraction.mul(2);
+  }
+  return fraction;
+}
+
+/**
+ * Construct the tonality diamond of an odd limit i.e. the octave-reduced ratios of odd numbers up to the limit.
+ * ```ts
+ * tonalityDiamond(5).map(f => f.toFraction())  // ["1", "6/5", "5/4", "4/3", "3/2", "8/5", "5/3"]
+ * tonalityDiamond(5, false).map(f => f.toFraction())  // ["1", "5/4", "3/2", "5/3"]
+ * ```
+ * @param oddLimit Largest odd number allowed in the numerator or the denominator.
+ * @param inversions Include the inversions of the otonal intervals i.e. ratios n/d with n < d before octave reduction.
+ * @returns Fractions in the range [1, 2) sorted by size.
+ */
+export function tonalityDiamond(oddLimit: number, inversions = true) {
+  const result = new FractionSet();
+  for (let n = 1; n <= oddLimit; n += 2) {
+    for (let d = 1; d <= oddLimit; d += 2) {
+      if (!inversions && n < d) {
+        continue;
+      }
+      result.add(octaveReduce(new Fraction(n, d)));
+    }
+  }
+  return sortFractions([...result]);
+}
+
+/**
+ * Construct the ratios of an integer limit i.e. fractions n/d ≥ 1 where neither n nor d exceeds the limit.
+ * ```ts
+ * integerLimitSet(4).map(f => f.toFraction())  // ["1", "4/3", "3/2", "2", "3", "4"]
+ * ```
+ * @param limit Largest integer allowed in the numerator or the denominator.
+ * @returns Fractions in lowest terms sorted by size.
+ */
+export function integerLimitSet(limit: number) {
+  const result: Fraction[] = [];
+  for (let n = 1; n <= limit; ++n) {
+    for (let d = 1; d <= n; ++d) {
+      if (gcd(n, d) === 1) {
+        result.push(new Fraction(n, d));
+      }
+    }
+  }
+  return sortFractions(result);
+}
+
+/**
+ * Construct the ratios of a prime limit bounded by a height measure.
+ * ```ts
+ * primeLimitSet(3, Math.log(24)).map(f => f.toFraction())  // ["1", "4/3", "3/2", "2", "8/3", "3", "4", "9/2", "6", "8", "9", "12", "16", "18", "24"]
+ * ```
+ * @param limit Largest prime allowed in the factorization of the ratios.
+ * @param maxHeight Largest height allowed.
+ * @param height Height measure.
+ * @returns Fractions n/d ≥ 1 sorted by size.
+ */
+export function primeLimitSet(
+  limit: number,
+  maxHeight: number,
+  height: HeightMeasure = 'tenney',
+) {
+  const numberOfPrimes = PRIMES.findIndex(p => p > limit);
+  if (!numberOfPrimes) {
+    return [new Fraction(1)];
+  }
+  const primes = PRIMES.slice(
+    0,
+    numberOfPrimes < 0 ? PRIMES.length : numberOfPrimes,
+  );
+  const costs =
+    height === 'tenney' ? LOG_PRIMES.slice(0, primes.length) : primes;
+  const epsilon = height === 'tenney' ? HEIGHT_EPSILON : 0;
+  const result: Fraction[] = [];
+  function accumulate(fraction: Fraction, total: number, index: number) {
+    if (index >= primes.length) {
+      if (fraction.compare(1) >= 0) {
+        result.push(fraction);
+      }
+      return;
+    }
+    accumulate(fraction, total, index + 1);
+    let up = fraction;
+    let down = fraction;
+    for (
+      let cost = total + costs[index];
+      cost <= maxHeight + epsilon;
+      cost += costs[index]
+    ) {
+      up = up.mul(primes[index]);
+      down = down.div(primes[index]);
+      accumulate(up, cost, index + 1);
+      accumulate(down, cost, index + 1);
+    }
+  }
+  accumulate(new Fraction(1), 0, 0);
+  return sortFractions(result);
+}
+
+/**
+ * Construct a segment of the harmonic series relative to its lowest harmonic.
+ * ```ts
+ * harmonicSegment(4, 8).map(f => f.toFraction())  // ["1", "5/4", "3/2", "7/4", "2"]
+ * ```
+ * @param start Lowest harmonic.
+ * @param end Highest harmonic.
+ * @returns Fractions k/start for k from start to end.
+ * @throws An error if the harmonics are not positive integers in ascending order.
+ */
+export function harmonicSegment(start: number, end: number) {
+  validateSegment(start, end);
+  const result: Fraction[] = [];
+  for (let k = start; k <= end; ++k) {
+    result.push(new Fraction(k, start));
+  }
+  return result;
+}
+
+/**
+ * Construct a segment of the subharmonic series relative to its lowest subharmonic.
+ * ```ts
+ * subharmonicSegment(4, 8).map(f => f.toFraction())  // ["1", "8/7", "4/3", "8/5", "2"]
+ * ```
+ * @param start Index of the highest subharmonic.
+ * @param end Index of the lowest subharmonic.
+ * @returns Fractions end/k for k from end down to start.
+ * @throws An error if the subharmonics are not positive integers in ascending order.
+ */
+export function subharmonicSegment(start: number, end: number) {
+  validateSegment(start, end);
+  const result: Fraction[] = [];
+  for (let k = end; k >= start; --k) {
+    result.push(new Fraction(end, k));
+  }
+  return result;
+}
+
+function validateSegment(start: number, end: number) {
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    start < 1 ||
+    end < start
+  ) {
+    throw new Error('Segment bounds must be positive integers in order');
+  }
+}
@@ -0,0 +1,262 @@
+import {Fraction, FractionValue} from './fraction.js';
+import {Monzo, monzoToFraction, sub} from './monzo.js';
+import {tenneyHeight, weilHeight, wilsonHeight} from './core.js';
+import {LOG_PRIMES, PRIMES} from './primes.js';
+import {finckePohst, lenstraLenstraLovasz} from './basis.js';
+import {Subgroup} from './subgroup.js';
+
+/**
+ * Measure of distance between intervals of a lattice.
+ *
+ * - `'tenney'`: Tenney height of the ratio between the intervals.
+ * - `'wilson'`: Wilson height of the ratio between the intervals.
+ * - `'weil'`: Weil height of the ratio between the intervals.
+ */
+export type LatticeMeasure = 'tenney' | 'wilson' | 'weil';
+
+function height(value: Fraction, measure: LatticeMeasure) {
+  if (measure === 'tenney') {
+    return tenneyHeight(value);
+  } else if (measure === 'wilson') {
+    return wilsonHeight(value);
+  } else if (measure === 'weil') {
+    return weilHeight(value);
+  }
+  throw new Error(`Unrecognized lattice measure '${measure}'`);
+}
+
+// Absolute tolerance for comparing heights.
+const RADIUS_EPSILON = 1e-9;
+
+/**
+ * Graph of intervals connected by steps along the basis elements of a just intonation subgroup.
+ */
+export class Lattice {
+  /** Just intonation subgroup whose basis elements define the axes of the lattice. */
+  subgroup: Subgroup;
+  /** Whether intervals differing by powers of the equave (the first basis element) are identified. */
+  equaveEquivalent: boolean;
+  /** Unique intervals of the lattice in order of appearance. */
+  nodes: Fraction[];
+  private monzos: Monzo[];
+  private index: Map<string, number>;
+
+  /**
+   * Construct a new lattice from a set of intervals.
+   * ```ts
+   * new Lattice(['1', '5/4', '3/2', '15/8'], '2.3.5');
+   * ```
+   * @param values Intervals of the lattice.
+   * @param subgroup Subgroup of the intervals. Defaults to the prime limit of the intervals.
+   * @param equaveEquivalent Identify intervals that differ by powers of the equave.
+   * @throws An error if an interval is outside the subgroup.
+   */
+  constructor(
+    values: FractionValue[],
+    subgroup?: Subgroup | string,
+    equaveEquivalent = false,
+  ) {
+    if (subgroup === undefined) {
+      subgroup = Subgroup.fromIntervals(values);
+    } else if (typeof subgroup === 'string') {
+      subgroup = new Subgroup(subgroup);
+    }
+    this.subgroup = subgroup;
+    this.equaveEquivalent = equaveEquivalent;
+    this.nodes = [];
+    this.monzos = [];
+    this.index = new Map();
+    for (const value of values) {
+      const monzo = this.coordinates(value);
+      const key = monzo.join(',');
+      if (!this.index.has(key)) {
+        this.index.set(key, this.nodes.length);
+        this.nodes.push(new Fraction(value));
+        this.monzos.push(monzo);
+      }
+    }
+  }
+
+  // Subgroup monzo of an interval with the equave component ignored if necessary.
+  private coordinates(value: FractionValue) {
+    const monzo = this.subgroup.toMonzo(value);
+    if (this.equaveEquivalent) {
+      monzo[0] = 0;
+    }
+    return monzo;
+  }
+
+  // Axes available for steps.
+  private axes() {
+    const result: number[] = [];
+    for (
+      let i = this.equaveEquivalent ? 1 : 0;
+      i < this.subgroup.basis.length;
+      ++i
+    ) {
+      result.push(i);
+    }
+    return result;
+  }
+
+  private neighborIndices(index: number) {
+    const result: number[] = [];
+    const monzo = this.monzos[index];
+    for (const axis of this.axes()) {
+      for (const direction of [1, -1]) {
+        const neighbor = [...monzo];
+        neighbor[axis] += direction;
+        const other = this.index.get(neighbor.join(','));
+        if (other !== undefined) {
+          result.push(other);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find the position of an interval among the nodes of the lattice.
+   * @param value Interval to look for.
+   * @returns Index of the interval in `nodes` or -1 if not present.
+   */
+  indexOf(value: FractionValue) {
+    if (!this.subgroup.contains(value)) {
+      return -1;
+    }
+    return this.index.get(this.coordinates(value).join(',')) ?? -1;
+  }
+
+  /**
+   * Find the intervals of the lattice one step away along a basis element.
+   * @param value Interval of the lattice.
+   * @returns Neighboring intervals.
+   * @throws An error if the interval is not a node of the lattice.
+   */
+  neighbors(value: FractionValue) {
+    const index = this.indexOf(value);
+    if (index < 0) {
+      throw new Error(
+        `${new Fraction(value).toFraction()} is not in the lattice`,
+      );
+    }
+    return this.neighborIndices(index).map(i => this.nodes[i]);
+  }
+
+  /**
+   * List the connections between intervals of the lattice.
+   * @returns Pairs of indices into `nodes` that are one step apart with the smaller index first.
+   */
+  edges(): [number, number][] {
+    const result: [number, number][] = [];
+    for (let i = 0; i < this.nodes.length; ++i) {
+      for (const j of this.neighborIndices(i)) {
+        if (i < j) {
+          result.push([i, j]);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find a shortest path between two intervals of the lattice using steps between nodes.
+   * @param from Starting interval.
+   * @param to Target interval.
+   * @returns Intervals along the path including the endpoints or `undefined` if the intervals are not connected.
+   * @throws An error if either interval is not a node of the lattice.
+   */
+  shortestPath(from: FractionValue, to: FractionValue) {
+    const start = this.indexOf(from);
+    const end = this.indexOf(to);
+    if (start < 0 || end < 0) {
+      throw new Error('Path endpoints must be in the lattice');
+    }
+    const previous = new Map<number, number>([[start, start]]);
+    let frontier = [start];
+    while (frontier.length && !previous.has(end)) {
+      const next: number[] = [];
+      for (const index of frontier) {
+        for (const neighbor of this.neighborIndices(index)) {
+          if (!previous.has(neighbor)) {
+            previous.set(neighbor, index);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+    if (!previous.has(end)) {
+      return undefined;
+    }
+    const path = [end];
+    while (path[path.length - 1] !== start) {
+      path.push(previous.get(path[path.length - 1])!);
+    }
+    return path.reverse().map(i => this.nodes[i]);
+  }
+
+  /**
+   * Measure the distance between two intervals of the subgroup.
+   * The equave is ignored if the lattice is equave-equivalent.
+   * @param a First interval.
+   * @param b Second interval.
+   * @param measure Distance measure.
+   * @returns Height of the ratio between the intervals.
+   */
+  distance(
+    a: FractionValue,
+    b: FractionValue,
+    measure: LatticeMeasure = 'tenney',
+  ) {
+    const monzo = sub(this.coordinates(a), this.coordinates(b));
+    return height(this.subgroup.toFraction(monzo), measure);
+  }
+
+  /**
+   * Enumerate the intervals of the subgroup within a radius of a root.
+   * Intervals are not limited to the nodes of the lattice.
+   * ```ts
+   * new Lattice([], '2.3.5', true).within(1, Math.log(16)).map(f => f.toFraction())  // ["1", "1/3", "3", "1/5", "5", "1/9", "9", "3/5", "5/3", "1/15", "15"]
+   * ```
+   * @param root Center of the search.
+   * @param radius Maximum distance from the root.
+   * @param measure Distance measure.
+   * @returns Intervals within the radius sorted by distance with the equave exponent of the root kept fixed if the lattice is equave-equivalent.
+   */
+  within(
+    root: FractionValue,
+    radius: number,
+    measure: LatticeMeasure = 'tenney',
+  ) {
+    const center = new Fraction(root);
+    const weights = PRIMES.slice(0, this.subgroup.numberOfComponents).map(
+      (p, i) => (measure === 'wilson' ? p : LOG_PRIMES[i]),
+    );
+    // The heights are sums of absolute weighted exponents so a ball of the same radius contains every candidate. Weil height is at least half of Tenney height.
+    const bound = measure === 'weil' ? 2 * radius : radius;
+    const embedded = this.axes().map(axis =>
+      this.subgroup.basisMonzos[axis].map((e, i) => e * weights[i]),
+    );
+    const {basis} = lenstraLenstraLovasz(embedded, 0.99);
+    const primeMonzos = basis.map(row =>
+      weights.map((weight, i) => Math.round(row[i] / weight)),
+    );
+    const result: [Fraction, number][] = [];
+    finckePohst(basis, bound * bound, coefficients => {
+      const monzo: Monzo = Array(weights.length).fill(0);
+      for (let i = 0; i < coefficients.length; ++i) {
+        for (let j = 0; j < weights.length; ++j) {
+          monzo[j] += coefficients[i] * primeMonzos[i][j];
+        }
+      }
+      const interval = monzoToFraction(monzo);
+      const distance = height(interval, measure);
+      if (distance <= radius + RADIUS_EPSILON) {
+        result.push([center.mul(interval), distance]);
+      }
+    });
+    result.sort((a, b) => a[1] - b[1] || a[0].compare(b[0]));
+    return result.map(([interval]) => interval);
+  }
+}
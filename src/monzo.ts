@@ -1,5 +1,5 @@
 import {Fraction, FractionValue, gcd} from './fraction.js';
-import {BIG_INT_PRIMES, PRIMES} from './primes.js';
+import {BIG_INT_PRIMES, PRIMES, factorizeBigInt, primePi} from './primes.js';
 
 /**
  * Array of integers representing the exponents of prime numbers in the unique factorization of a rational number.
@@ -514,6 +514,9 @@ export function primeLimit(
     if (n % probe) {
       probe = lastProbe;
       limitIndex++;
+      if (limitIndex >= PRIMES.length && maxLimit > PRIMES[PRIMES.length - 1]) {
+        return largePrimeLimit(BigInt(n / probe), asOrdinal, maxLimit);
+      }
       if (limitIndex >= PRIMES.length || PRIMES[limitIndex] > maxLimit) {
         return Infinity;
       }
@@ -551,6 +554,9 @@ function bigIntPrimeLimit(
     if (n % probe) {
       probe = lastProbe;
       limitIndex++;
+      if (limitIndex >= PRIMES.length && maxLimit > PRIMES[PRIMES.length - 1]) {
+        return largePrimeLimit(n / probe, asOrdinal, maxLimit);
+      }
       // Using non-big primes here is intentional, the arrays have the same length.
       if (limitIndex >= PRIMES.length || PRIMES[limitIndex] > maxLimit) {
         return Infinity;
@@ -835,6 +841,39 @@ function rhoCascade(n: number) {
   return factor;
 }
 
+// Factorize an integer accumulating exponents into the result.
+function factorizeResidual(
+  n: bigint,
+  result: Map<number, number>,
+  sign: number,
+) {
+  for (const [factor, exponent] of factorizeBigInt(n)) {
+    if (factor > BIG_INT_THRESHOLD) {
+      throw new Error(
+        `Prime factors above ${Number.MAX_SAFE_INTEGER} cannot be represented.`,
+      );
+    }
+    const prime = Number(factor);
+    result.set(prime, (result.get(prime) ?? 0) + sign * exponent);
+  }
+}
+
+// Largest prime factor of an integer without factors in the PRIMES table.
+function largePrimeLimit(n: bigint, asOrdinal: boolean, maxLimit: number) {
+  const factors = factorizeBigInt(n);
+  const largest = factors[factors.length - 1][0];
+  if (largest > maxLimit) {
+    return Infinity;
+  }
+  if (largest > BIG_INT_THRESHOLD) {
+    throw new Error(
+      `Prime factors above ${Number.MAX_SAFE_INTEGER} cannot be represented.`,
+    );
+  }
+  const limit = Number(largest);
+  return asOrdinal ? primePi(limit) : limit;
+}
+
 /**
  * Factorize a number into a `Map` instance with prime numbers as keys and their multiplicity as values.
  *
@@ -908,9 +947,10 @@ export function primeFactorize(
     }
 
     if (numerator > BIG_INT_THRESHOLD || divisor > BIG_INT_THRESHOLD) {
-      throw new Error(
-        `Factorization not implemented for residuals above ${Number.MAX_SAFE_INTEGER}.`,
-      );
+      // Remaining factors are beyond the table.
+      factorizeResidual(numerator, result, 1);
+      factorizeResidual(divisor, result, -1);
+      return result;
     }
 
     const nResult = primeFactorize(Number(numerator));
@@ -949,22 +989,22 @@ export function primeFactorize(
     value = -value;
   }
   if (value > Number.MAX_SAFE_INTEGER) {
-    throw new Error(
-      `Factorization not implemented above ${Number.MAX_SAFE_INTEGER}.`,
-    );
+    for (const [prime, exponent] of primeFactorize(BigInt(value))) {
+      result.set(prime, exponent);
+    }
+    return result;
   }
   const [monzo, initialResidual] = intToMonzo7(value);
   let residual = initialResidual;
-  if (residual > 1073741823) {
-    throw new Error(
-      'Factorization not implemented when 7-limit residual > 1073741823.',
-    );
-  }
   for (let i = 0; i < monzo.length; ++i) {
     if (monzo[i]) {
       result.set(PRIMES[i], monzo[i]);
     }
   }
+  if (residual > 1073741823) {
+    factorizeResidual(BigInt(residual), result, 1);
+    return result;
+  }
   // Skip cascade for known primes.
   if (PRIMES.includes(residual)) {
     result.set(residual, 1);
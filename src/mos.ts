@@ -0,0 +1,400 @@
+import {gcd, mmod} from './fraction.js';
+
+/**
+ * Step pattern of a moment of symmetry scale such as 5L 2s.
+ */
+export type MosPattern = {
+  /** Number of large steps per equave. */
+  numberOfLargeSteps: number;
+  /** Number of small steps per equave. */
+  numberOfSmallSteps: number;
+};
+
+/**
+ * Mode of a moment of symmetry scale.
+ */
+export type MosMode = {
+  /** Step word of the mode such as "LLsLLLs". */
+  mode: string;
+  /** Number of generators stacked up from the root. */
+  up: number;
+  /** Number of generators stacked down from the root. */
+  down: number;
+  /** Number of periods per equave. */
+  period: number;
+  /** Mode in UDP notation such as "5|1" or "10|2(2)". */
+  udp: string;
+};
+
+/**
+ * Named range of step ratios (large / small) following TAMNAMS.
+ */
+export type HardnessRange = {
+  /** Name of the range such as "soft" or "quasihard". */
+  name: string;
+  /** Smallest step ratio of the range. */
+  min: number;
+  /** Largest step ratio of the range. */
+  max: number;
+};
+
+/**
+ * Named step ratios and the open ranges between them ordered from softest to hardest.
+ */
+export const HARDNESS_RANGES: HardnessRange[] = [
+  {name: 'equalized', min: 1, max: 1},
+  {name: 'ultrasoft', min: 1, max: 4 / 3},
+  {name: 'supersoft', min: 4 / 3, max: 4 / 3},
+  {name: 'parasoft', min: 4 / 3, max: 3 / 2},
+  {name: 'soft', min: 3 / 2, max: 3 / 2},
+  {name: 'quasisoft', min: 3 / 2, max: 5 / 3},
+  {name: 'semisoft', min: 5 / 3, max: 5 / 3},
+  {name: 'minisoft', min: 5 / 3, max: 2},
+  {name: 'basic', min: 2, max: 2},
+  {name: 'minihard', min: 2, max: 5 / 2},
+  {name: 'semihard', min: 5 / 2, max: 5 / 2},
+  {name: 'quasihard', min: 5 / 2, max: 3},
+  {name: 'hard', min: 3, max: 3},
+  {name: 'parahard', min: 3, max: 4},
+  {name: 'superhard', min: 4, max: 4},
+  {name: 'ultrahard', min: 4, max: Infinity},
+  {name: 'collapsed', min: Infinity, max: Infinity},
+];
+
+// Relative tolerance for considering two step sizes equal.
+const STEP_EPSILON = 1e-9;
+
+function toPattern(pattern: MosPattern | string) {
+  if (typeof pattern === 'string') {
+    return parseMosPattern(pattern);
+  }
+  const {numberOfLargeSteps, numberOfSmallSteps} = pattern;
+  if (
+    !Number.isInteger(numberOfLargeSteps) ||
+    !Number.isInteger(numberOfSmallSteps) ||
+    numberOfLargeSteps < 1 ||
+    numberOfSmallSteps < 1
+  ) {
+    throw new Error('Step counts must be positive integers');
+  }
+  return pattern;
+}
+
+/**
+ * Parse a step pattern such as "5L 2s".
+ * @param pattern Number of large steps followed by "L" and the number of small steps followed by "s".
+ * @returns The numbers of large and small steps.
+ * @throws An error if the pattern cannot be parsed.
+ */
+export function parseMosPattern(pattern: string): MosPattern {
+  const match = pattern.trim().match(/^(\d+)\s*L\s*(\d+)\s*s$/);
+  if (!match) {
+    throw new Error(`Invalid MOS pattern '${pattern}'`);
+  }
+  return toPattern({
+    numberOfLargeSteps: parseInt(match[1]),
+    numberOfSmallSteps: parseInt(match[2]),
+  });
+}
+
+/**
+ * Format a step pattern such as "5L 2s".
+ * @param pattern The numbers of large and small steps.
+ * @returns The pattern as a string.
+ */
+export function mosPatternToString(pattern: MosPattern) {
+  return `${pattern.numberOfLargeSteps}L ${pattern.numberOfSmallSteps}s`;
+}
+
+// Compare step words so that brighter modes come first.
+function brightnessCompare(a: string, b: string) {
+  for (let i = 0; i < a.length; ++i) {
+    if (a[i] !== b[i]) {
+      return a[i] === 'L' ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+function rotations(word: string) {
+  const result: string[] = [];
+  for (let i = 0; i < word.length; ++i) {
+    result.push(word.slice(i) + word.slice(0, i));
+  }
+  return result;
+}
+
+/**
+ * Obtain the step word of the brightest mode of a moment of symmetry scale.
+ * ```ts
+ * mosWord('5L 2s')  // "LLLsLLs"
+ * ```
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @returns Step word consisting of the letters "L" and "s".
+ */
+export function mosWord(pattern: MosPattern | string) {
+  const {numberOfLargeSteps, numberOfSmallSteps} = toPattern(pattern);
+  const period = gcd(numberOfLargeSteps, numberOfSmallSteps);
+  const large = numberOfLargeSteps / period;
+  const size = large + numberOfSmallSteps / period;
+  let word = '';
+  for (let i = 0; i < size; ++i) {
+    word +=
+      Math.floor(((i + 1) * large) / size) - Math.floor((i * large) / size)
+        ? 'L'
+        : 's';
+  }
+  word = rotations(word).sort(brightnessCompare)[0];
+  return word.repeat(period);
+}
+
+/**
+ * Obtain the modes of a moment of symmetry scale sorted from brightest to darkest.
+ * ```ts
+ * mosModes('5L 2s').map(m => m.udp)  // ["6|0", "5|1", "4|2", "3|3", "2|4", "1|5", "0|6"]
+ * ```
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @returns The distinct modes with UDP notation.
+ */
+export function mosModes(pattern: MosPattern | string): MosMode[] {
+  const {numberOfLargeSteps, numberOfSmallSteps} = toPattern(pattern);
+  const period = gcd(numberOfLargeSteps, numberOfSmallSteps);
+  const word = mosWord(pattern);
+  const periodSize = word.length / period;
+  const modes = rotations(word.slice(0, periodSize)).sort(brightnessCompare);
+  return modes.map((mode, i) => {
+    const up = (periodSize - 1 - i) * period;
+    const down = i * period;
+    return {
+      mode: mode.repeat(period),
+      up,
+      down,
+      period,
+      udp: period > 1 ? `${up}|${down}(${period})` : `${up}|${down}`,
+    };
+  });
+}
+
+/**
+ * Obtain the parent of a step pattern in the MOS family tree.
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @returns The pattern with fewer notes that this one descends from or `undefined` for root patterns such as 1L 1s.
+ */
+export function mosParent(
+  pattern: MosPattern | string,
+): MosPattern | undefined {
+  const {numberOfLargeSteps, numberOfSmallSteps} = toPattern(pattern);
+  if (numberOfLargeSteps > numberOfSmallSteps) {
+    return {
+      numberOfLargeSteps: numberOfSmallSteps,
+      numberOfSmallSteps: numberOfLargeSteps - numberOfSmallSteps,
+    };
+  }
+  if (numberOfSmallSteps > numberOfLargeSteps) {
+    return {
+      numberOfLargeSteps,
+      numberOfSmallSteps: numberOfSmallSteps - numberOfLargeSteps,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Obtain the children of a step pattern in the MOS family tree.
+ * ```ts
+ * mosChildren('5L 2s').map(mosPatternToString)  // ["7L 5s", "5L 7s"]
+ * ```
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @returns The child arising from a soft tuning of the parent followed by the one arising from a hard tuning.
+ */
+export function mosChildren(pattern: MosPattern | string): MosPattern[] {
+  const {numberOfLargeSteps, numberOfSmallSteps} = toPattern(pattern);
+  const size = numberOfLargeSteps + numberOfSmallSteps;
+  return [
+    {numberOfLargeSteps: size, numberOfSmallSteps: numberOfLargeSteps},
+    {numberOfLargeSteps, numberOfSmallSteps: size},
+  ];
+}
+
+/**
+ * Enumerate the descendants of a step pattern in the MOS family tree i.e. its Stern–Brocot subtree.
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @param depth Number of generations to enumerate.
+ * @returns Generations of patterns starting with the pattern itself.
+ */
+export function mosDescendants(
+  pattern: MosPattern | string,
+  depth: number,
+): MosPattern[][] {
+  const result = [[toPattern(pattern)]];
+  for (let i = 0; i < depth; ++i) {
+    result.push(result[result.length - 1].flatMap(p => mosChildren(p)));
+  }
+  return result;
+}
+
+/**
+ * Generate a moment of symmetry scale by stacking a generator within a period.
+ * ```ts
+ * mosScale(700, 1200, 7, 1)  // [200, 400, 500, 700, 900, 1100, 1200]
+ * ```
+ * @param generator Size of the generator in cents.
+ * @param period Size of the period in cents.
+ * @param size Number of notes per period.
+ * @param down Number of generators stacked downwards. The remaining ones are stacked upwards.
+ * @returns Scale degrees in ascending order with the period last.
+ * @throws An error if the generator doesn't produce a scale with at most two step sizes.
+ */
+export function mosScale(
+  generator: number,
+  period: number,
+  size: number,
+  down = 0,
+) {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('Size must be a positive integer');
+  }
+  if (!Number.isInteger(down) || down < 0 || down >= size) {
+    throw new Error(`Down must be an integer between 0 and ${size - 1}`);
+  }
+  const degrees: number[] = [];
+  for (let i = -down; i < size - down; ++i) {
+    if (i) {
+      degrees.push(mmod(i * generator, period));
+    }
+  }
+  degrees.sort((a, b) => a - b);
+  degrees.push(period);
+  const steps = degrees.map((degree, i) => degree - (i ? degrees[i - 1] : 0));
+  if (stepSizes(steps).length > 2 || steps.some(step => step <= 0)) {
+    throw new Error(
+      `Generator ${generator} does not produce a MOS of size ${size}`,
+    );
+  }
+  return degrees;
+}
+
+function stepSizes(steps: number[]) {
+  const result: number[] = [];
+  for (const step of steps) {
+    if (
+      !result.some(
+        size =>
+          Math.abs(size - step) <= STEP_EPSILON * Math.max(1, Math.abs(size)),
+      )
+    ) {
+      result.push(step);
+    }
+  }
+  return result.sort((a, b) => b - a);
+}
+
+/**
+ * Identify the step pattern of a scale if it's a moment of symmetry scale.
+ * @param scale Scale degrees in ascending order with the equave last.
+ * @returns The numbers of large and small steps and the step word or `undefined` if the scale is not a MOS.
+ */
+export function classifyMos(scale: number[]) {
+  const steps = scale.map((degree, i) => degree - (i ? scale[i - 1] : 0));
+  const sizes = stepSizes(steps);
+  if (sizes.length !== 2 || sizes[1] <= 0) {
+    return undefined;
+  }
+  const [large] = sizes;
+  const word = steps
+    .map(step =>
+      Math.abs(step - large) <= STEP_EPSILON * Math.max(1, large) ? 'L' : 's',
+    )
+    .join('');
+  const pattern: MosPattern = {
+    numberOfLargeSteps: [...word].filter(step => step === 'L').length,
+    numberOfSmallSteps: [...word].filter(step => step === 's').length,
+  };
+  if (!rotations(mosWord(pattern)).includes(word)) {
+    return undefined;
+  }
+  return {...pattern, word, large: sizes[0], small: sizes[1]};
+}
+
+/**
+ * Calculate the sizes of the steps of a moment of symmetry scale.
+ * @param generator Size of the generator in cents.
+ * @param period Size of the period in cents.
+ * @param size Number of notes per period.
+ * @returns The large step, the small step and their ratio in cents.
+ */
+export function mosStepSizes(generator: number, period: number, size: number) {
+  const steps = mosScale(generator, period, size).map(
+    (degree, i, degrees) => degree - (i ? degrees[i - 1] : 0),
+  );
+  const sizes = stepSizes(steps);
+  const large = sizes[0];
+  const small = sizes.length > 1 ? sizes[1] : large;
+  return {large, small, ratio: large / small};
+}
+
+/**
+ * Name the hardness of a step ratio following TAMNAMS.
+ * ```ts
+ * hardnessName(2)  // "basic"
+ * hardnessName(2.2)  // "minihard"
+ * ```
+ * @param ratio Size of the large step divided by the size of the small step.
+ * @returns The name of the exact ratio or of the range containing it.
+ * @throws An error if the ratio is less than one.
+ */
+export function hardnessName(ratio: number) {
+  if (ratio < 1 || isNaN(ratio)) {
+    throw new Error('Step ratio must be at least one');
+  }
+  for (const range of HARDNESS_RANGES) {
+    if (range.min === range.max) {
+      if (Math.abs(ratio - range.min) <= STEP_EPSILON * range.min) {
+        return range.name;
+      }
+    } else if (ratio > range.min && ratio < range.max) {
+      return range.name;
+    }
+  }
+  return 'collapsed';
+}
+
+/**
+ * Calculate the range of bright generators that produce a step pattern.
+ * ```ts
+ * mosGeneratorRange('5L 2s')  // [685.714, 720]
+ * ```
+ * @param pattern Step pattern as a string or the numbers of large and small steps.
+ * @param equave Size of the equave in cents.
+ * @returns The equalized and collapsed generators in cents. The pattern is produced by generators strictly between them.
+ */
+export function mosGeneratorRange(
+  pattern: MosPattern | string,
+  equave = 1200,
+): [number, number] {
+  const {numberOfLargeSteps, numberOfSmallSteps} = toPattern(pattern);
+  const periods = gcd(numberOfLargeSteps, numberOfSmallSteps);
+  const large = numberOfLargeSteps / periods;
+  const size = large + numberOfSmallSteps / periods;
+  const word = mosWord(pattern).slice(0, size);
+  // The bright generator is the interval that reproduces the brightest mode when stacked upwards in the basic tuning.
+  const basicPeriod = 2 * large + size - large;
+  for (let k = 1; k < size; ++k) {
+    const prefix = word.slice(0, k);
+    const largeSteps = [...prefix].filter(step => step === 'L').length;
+    const generator = largeSteps + k;
+    const degrees = [basicPeriod];
+    for (let i = 1; i < size; ++i) {
+      degrees.push(mmod(i * generator, basicPeriod));
+    }
+    degrees.sort((a, b) => a - b);
+    const mode = degrees
+      .map((degree, i) => (degree - (i ? degrees[i - 1] : 0) === 2 ? 'L' : 's'))
+      .join('');
+    if (mode === word) {
+      const period = equave / periods;
+      return [(k * period) / size, (largeSteps * period) / large];
+    }
+  }
+  throw new Error('Could not find a generator');
+}
@@ -0,0 +1,415 @@
+import {frequencyToMtsBytes, mtsBytesToFrequency} from './conversion.js';
+
+/**
+ * Device ID that addresses all devices.
+ */
+export const MTS_ALL_DEVICES = 0x7f;
+
+const SYSEX_START = 0xf0;
+const SYSEX_END = 0xf7;
+const NON_REAL_TIME = 0x7e;
+const REAL_TIME = 0x7f;
+const MIDI_TUNING = 0x08;
+
+const BULK_DUMP = 0x01;
+const SINGLE_NOTE = 0x02;
+const BULK_DUMP_BANK = 0x04;
+const SINGLE_NOTE_BANK = 0x07;
+const SCALE_OCTAVE_1_BYTE = 0x08;
+const SCALE_OCTAVE_2_BYTE = 0x09;
+
+const NAME_LENGTH = 16;
+const MIDI_NOTE_COUNT = 128;
+const NO_CHANGE = 0x7f;
+const MAX_SINGLE_NOTE_CHANGES = 127;
+
+/**
+ * Tuning of a single MIDI note. A `null` frequency indicates that the tuning of the note should not change.
+ */
+export type NoteTuning = {
+  /** MIDI note number. */
+  note: number;
+  /** Frequency in Hertz. */
+  frequency: number | null;
+};
+
+/**
+ * Contents of an MTS bulk tuning dump message.
+ */
+export type BulkTuningDump = {
+  /** Device ID of the message. */
+  deviceId: number;
+  /** Tuning bank number if present. */
+  bank?: number;
+  /** Tuning program number. */
+  program: number;
+  /** Name of the tuning with trailing spaces removed. */
+  name: string;
+  /** Frequencies of all 128 MIDI notes. `null` for notes that should not change. */
+  frequencies: (number | null)[];
+};
+
+/**
+ * Contents of an MTS single note tuning change message.
+ */
+export type SingleNoteTuningChange = {
+  /** Device ID of the message. */
+  deviceId: number;
+  /** `true` if the message is of the real-time variety. */
+  realTime: boolean;
+  /** Tuning bank number if present. */
+  bank?: number;
+  /** Tuning program number. */
+  program: number;
+  /** Changes to the tunings of individual notes. */
+  changes: NoteTuning[];
+};
+
+/**
+ * Contents of an MTS scale/octave tuning message.
+ */
+export type ScaleOctaveTuning = {
+  /** Device ID of the message. */
+  deviceId: number;
+  /** `true` if the message is of the real-time variety. */
+  realTime: boolean;
+  /** `true` if the message uses the 2-byte high resolution form. */
+  twoByte: boolean;
+  /** Zero-based MIDI channels affected by the message. */
+  channels: number[];
+  /** Offsets from 12-tone equal temperament for pitch classes C, C#, D, ..., B measured in cents. */
+  cents: number[];
+};
+
+function validateDataByte(value: number, what: string) {
+  if (!Number.isInteger(value) || value < 0 || value > 0x7f) {
+    throw new Error(`${what} must be an integer between 0 and 127`);
+  }
+}
+
+function noteBytes(frequency: number | null) {
+  if (frequency === null) {
+    return [NO_CHANGE, NO_CHANGE, NO_CHANGE];
+  }
+  return [...frequencyToMtsBytes(frequency)];
+}
+
+function bytesToFrequency(bytes: Uint8Array) {
+  if (
+    bytes[0] === NO_CHANGE &&
+    bytes[1] === NO_CHANGE &&
+    bytes[2] === NO_CHANGE
+  ) {
+    return null;
+  }
+  return mtsBytesToFrequency(bytes);
+}
+
+/**
+ * Calculate the checksum of a bulk tuning dump.
+ * @param data Bytes of the message excluding the leading 0xF0, the checksum and the trailing 0xF7.
+ * @returns XOR of the bytes masked to 7 bits.
+ */
+export function mtsChecksum(data: Iterable<number>) {
+  let result = 0;
+  for (const byte of data) {
+    result ^= byte;
+  }
+  return result & 0x7f;
+}
+
+function validateSysex(message: Uint8Array, nonRealTimeOnly = false) {
+  if (
+    message.length < 6 ||
+    message[0] !== SYSEX_START ||
+    message[message.length - 1] !== SYSEX_END
+  ) {
+    throw new Error('Not a SysEx message');
+  }
+  if (
+    message[1] !== NON_REAL_TIME &&
+    (nonRealTimeOnly || message[1] !== REAL_TIME)
+  ) {
+    throw new Error('Not a universal SysEx message of the expected variety');
+  }
+  if (message[3] !== MIDI_TUNING) {
+    throw new Error('Not an MTS message');
+  }
+  for (let i = 1; i < message.length - 1; ++i) {
+    if (message[i] > 0x7f) {
+      throw new Error(`Invalid data byte at index ${i}`);
+    }
+  }
+}
+
+/**
+ * Build an MTS bulk tuning dump message retuning all 128 MIDI notes.
+ * @param frequencies Frequencies in Hertz for all 128 MIDI notes. `null` leaves the tuning of a note unchanged.
+ * @param name Name of the tuning. Truncated or padded with spaces to 16 ASCII characters.
+ * @param program Tuning program number.
+ * @param bank Tuning bank number. Produces the bank variant of the message if given.
+ * @param deviceId Device ID of the receiver.
+ * @returns SysEx message including the leading 0xF0 and the trailing 0xF7.
+ */
+export function buildBulkTuningDump(
+  frequencies: (number | null)[],
+  name = '',
+  program = 0,
+  bank?: number,
+  deviceId = MTS_ALL_DEVICES,
+): Uint8Array {
+  if (frequencies.length !== MIDI_NOTE_COUNT) {
+    throw new Error(`Expected ${MIDI_NOTE_COUNT} frequencies`);
+  }
+  validateDataByte(program, 'Program');
+  validateDataByte(deviceId, 'Device ID');
+  const data = [NON_REAL_TIME, deviceId, MIDI_TUNING];
+  if (bank === undefined) {
+    data.push(BULK_DUMP);
+  } else {
+    validateDataByte(bank, 'Bank');
+    data.push(BULK_DUMP_BANK, bank);
+  }
+  data.push(program);
+  const paddedName = name.padEnd(NAME_LENGTH, ' ').slice(0, NAME_LENGTH);
+  for (let i = 0; i < NAME_LENGTH; ++i) {
+    const code = paddedName.charCodeAt(i);
+    // Replace non-ASCII characters with question marks.
+    data.push(code > 0x7f ? 0x3f : code);
+  }
+  for (const frequency of frequencies) {
+    data.push(...noteBytes(frequency));
+  }
+  return new Uint8Array([SYSEX_START, ...data, mtsChecksum(data), SYSEX_END]);
+}
+
+/**
+ * Parse an MTS bulk tuning dump message.
+ * @param message SysEx message including the leading 0xF0 and the trailing 0xF7.
+ * @returns The contents of the message.
+ * @throws An error if the message is malformed or the checksum doesn't match.
+ */
+export function parseBulkTuningDump(message: Uint8Array): BulkTuningDump {
+  validateSysex(message, true);
+  let index = 5;
+  let bank: number | undefined;
+  if (message[4] === BULK_DUMP_BANK) {
+    bank = message[index++];
+  } else if (message[4] !== BULK_DUMP) {
+    throw new Error('Not a bulk tuning dump');
+  }
+  const expectedLength = index + 1 + NAME_LENGTH + 3 * MIDI_NOTE_COUNT + 2;
+  if (message.length !== expectedLength) {
+    throw new Error(
+      `Invalid message length ${message.length}. Expected ${expectedLength}`,
+    );
+  }
+  const checksum = mtsChecksum(message.subarray(1, -2));
+  if (checksum !== message[message.length - 2]) {
+    throw new Error('Checksum mismatch');
+  }
+  const program = message[index++];
+  const name = String.fromCharCode(
+    ...message.subarray(index, index + NAME_LENGTH),
+  ).trimEnd();
+  index += NAME_LENGTH;
+  const frequencies: (number | null)[] = [];
+  for (let i = 0; i < MIDI_NOTE_COUNT; ++i) {
+    frequencies.push(bytesToFrequency(message.subarray(index, index + 3)));
+    index += 3;
+  }
+  const result: BulkTuningDump = {
+    deviceId: message[2],
+    program,
+    name,
+    frequencies,
+  };
+  if (bank !== undefined) {
+    result.bank = bank;
+  }
+  return result;
+}
+
+/**
+ * Build an MTS single note tuning change message.
+ * @param changes Notes to retune. At most 127 notes per message.
+ * @param program Tuning program number.
+ * @param realTime Produce the real-time variety of the message.
+ * @param bank Tuning bank number. Produces the bank variant of the message if given. The non-real-time variety always includes a bank, defaulting to 0.
+ * @param deviceId Device ID of the receiver.
+ * @returns SysEx message including the leading 0xF0 and the trailing 0xF7.
+ */
+export function buildSingleNoteTuningChange(
+  changes: NoteTuning[],
+  program = 0,
+  realTime = true,
+  bank?: number,
+  deviceId = MTS_ALL_DEVICES,
+): Uint8Array {
+  if (changes.length > MAX_SINGLE_NOTE_CHANGES) {
+    throw new Error(
+      `At most ${MAX_SINGLE_NOTE_CHANGES} changes fit in a single message`,
+    );
+  }
+  validateDataByte(program, 'Program');
+  validateDataByte(deviceId, 'Device ID');
+  const data = [realTime ? REAL_TIME : NON_REAL_TIME, deviceId, MIDI_TUNING];
+  if (bank === undefined && !realTime) {
+    bank = 0;
+  }
+  if (bank === undefined) {
+    data.push(SINGLE_NOTE);
+  } else {
+    validateDataByte(bank, 'Bank');
+    data.push(SINGLE_NOTE_BANK, bank);
+  }
+  data.push(program, changes.length);
+  for (const {note, frequency} of changes) {
+    validateDataByte(note, 'Note');
+    data.push(note, ...noteBytes(frequency));
+  }
+  return new Uint8Array([SYSEX_START, ...data, SYSEX_END]);
+}
+
+/**
+ * Parse an MTS single note tuning change message.
+ * @param message SysEx message including the leading 0xF0 and the trailing 0xF7.
+ * @returns The contents of the message.
+ * @throws An error if the message is malformed.
+ */
+export function parseSingleNoteTuningChange(
+  message: Uint8Array,
+): SingleNoteTuningChange {
+  validateSysex(message);
+  const realTime = message[1] === REAL_TIME;
+  let index = 5;
+  let bank: number | undefined;
+  if (message[4] === SINGLE_NOTE_BANK) {
+    bank = message[index++];
+  } else if (message[4] !== SINGLE_NOTE || !realTime) {
+    throw new Error('Not a single note tuning change');
+  }
+  const program = message[index++];
+  const count = message[index++];
+  const expectedLength = index + 4 * count + 1;
+  if (message.length !== expectedLength) {
+    throw new Error(
+      `Invalid message length ${message.length}. Expected ${expectedLength}`,
+    );
+  }
+  const changes: NoteTuning[] = [];
+  for (let i = 0; i < count; ++i) {
+    changes.push({
+      note: message[index],
+      frequency: bytesToFrequency(message.subarray(index + 1, index + 4)),
+    });
+    index += 4;
+  }
+  const result: SingleNoteTuningChange = {
+    deviceId: message[2],
+    realTime,
+    program,
+    changes,
+  };
+  if (bank !== undefined) {
+    result.bank = bank;
+  }
+  return result;
+}
+
+/**
+ * Build an MTS scale/octave tuning message.
+ *
+ * The 1-byte form has a resolution of 1 cent and a range from -64 to +63 cents.
+ * The 2-byte form has a resolution of 100/8192 cents and a range from -100 to +100 cents.
+ * Offsets outside the range are clamped.
+ * @param cents Offsets from 12-tone equal temperament for the 12 pitch classes C, C#, D, ..., B measured in cents.
+ * @param channels Zero-based MIDI channels to retune.
+ * @param twoByte Produce the high resolution 2-byte form.
+ * @param realTime Produce the real-time variety of the message.
+ * @param deviceId Device ID of the receiver.
+ * @returns SysEx message including the leading 0xF0 and the trailing 0xF7.
+ */
+export function buildScaleOctaveTuning(
+  cents: number[],
+  channels: number[] = [...Array(16).keys()],
+  twoByte = false,
+  realTime = false,
+  deviceId = MTS_ALL_DEVICES,
+): Uint8Array {
+  if (cents.length !== 12) {
+    throw new Error('Expected 12 offsets');
+  }
+  validateDataByte(deviceId, 'Device ID');
+  let mask = 0;
+  for (const channel of channels) {
+    if (!Number.isInteger(channel) || channel < 0 || channel > 15) {
+      throw new Error('Channel must be an integer between 0 and 15');
+    }
+    mask |= 1 << channel;
+  }
+  const data = [
+    realTime ? REAL_TIME : NON_REAL_TIME,
+    deviceId,
+    MIDI_TUNING,
+    twoByte ? SCALE_OCTAVE_2_BYTE : SCALE_OCTAVE_1_BYTE,
+    (mask >> 14) & 0x03,
+    (mask >> 7) & 0x7f,
+    mask & 0x7f,
+  ];
+  for (const offset of cents) {
+    if (twoByte) {
+      const value = Math.max(
+        0,
+        Math.min(0x3fff, Math.round(((offset + 100) * 0x2000) / 100)),
+      );
+      data.push(value >> 7, value & 0x7f);
+    } else {
+      data.push(Math.max(0, Math.min(0x7f, Math.round(offset) + 0x40)));
+    }
+  }
+  return new Uint8Array([SYSEX_START, ...data, SYSEX_END]);
+}
+
+/**
+ * Parse an MTS scale/octave tuning message.
+ * @param message SysEx message including the leading 0xF0 and the trailing 0xF7.
+ * @returns The contents of the message.
+ * @throws An error if the message is malformed.
+ */
+export function parseScaleOctaveTuning(message: Uint8Array): ScaleOctaveTuning {
+  validateSysex(message);
+  const twoByte = message[4] === SCALE_OCTAVE_2_BYTE;
+  if (!twoByte && message[4] !== SCALE_OCTAVE_1_BYTE) {
+    throw new Error('Not a scale/octave tuning message');
+  }
+  const expectedLength = 9 + (twoByte ? 24 : 12);
+  if (message.length !== expectedLength) {
+    throw new Error(
+      `Invalid message length ${message.length}. Expected ${expectedLength}`,
+    );
+  }
+  const mask = (message[5] << 14) | (message[6] << 7) | message[7];
+  const channels: number[] = [];
+  for (let i = 0; i < 16; ++i) {
+    if (mask & (1 << i)) {
+      channels.push(i);
+    }
+  }
+  const cents: number[] = [];
+  for (let i = 0; i < 12; ++i) {
+    if (twoByte) {
+      const value = (message[8 + 2 * i] << 7) | message[9 + 2 * i];
+      cents.push((value * 100) / 0x2000 - 100);
+    } else {
+      cents.push(message[8 + i] - 0x40);
+    }
+  }
+  return {
+    deviceId: message[2],
+    realTime: message[1] === REAL_TIME,
+    twoByte,
+    channels,
+    cents,
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Necklaces and step words.
+ *
+ * Words are arrays of integers such as letter indices or step sizes.
+ * Necklaces are represented by their lexicographically least rotation.
+ * With large steps labeled 0 and small steps 1 the least rotation is the brightest mode of a scale.
+ */
+
+function validateCounts(counts: readonly number[]) {
+  for (const count of counts) {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error('Letter counts must be non-negative integers');
+    }
+  }
+}
+
+function compareWords(a: readonly number[], b: readonly number[]) {
+  for (let i = 0; i < Math.min(a.length, b.length); ++i) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Find the starting index of the lexicographically least rotation of a word using Booth's algorithm.
+ * @param word Array of integers.
+ * @returns Index of the first letter of the least rotation.
+ */
+export function leastRotationIndex(word: readonly number[]) {
+  const n = word.length;
+  const failure: number[] = Array(2 * n).fill(-1);
+  let result = 0;
+  for (let j = 1; j < 2 * n; ++j) {
+    const letter = word[j % n];
+    let i = failure[j - result - 1];
+    while (i !== -1 && letter !== word[(result + i + 1) % n]) {
+      if (letter < word[(result + i + 1) % n]) {
+        result = j - i - 1;
+      }
+      i = failure[i];
+    }
+    if (letter !== word[(result + i + 1) % n]) {
+      // Here i === -1
+      if (letter < word[result % n]) {
+        result = j;
+      }
+      failure[j - result] = -1;
+    } else {
+      failure[j - result] = i + 1;
+    }
+  }
+  return result % Math.max(1, n);
+}
+
+/**
+ * Rotate a word to its necklace form i.e. the lexicographically least rotation.
+ * ```ts
+ * necklaceForm([1, 0, 0, 1, 0, 0, 0])  // [0, 0, 0, 1, 0, 0, 1]
+ * ```
+ * @param word Array of integers.
+ * @returns The least rotation of the word.
+ */
+export function necklaceForm(word: readonly number[]) {
+  const index = leastRotationIndex(word);
+  return word.slice(index).concat(word.slice(0, index));
+}
+
+/**
+ * Check if a word is a rotation of another word.
+ * @param a Array of integers.
+ * @param b Array of integers.
+ * @returns `true` if `b` can be obtained by rotating `a`.
+ */
+export function isRotation(a: readonly number[], b: readonly number[]) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return !compareWords(necklaceForm(a), necklaceForm(b));
+}
+
+/**
+ * Check if a word is a Lyndon word i.e. strictly smaller than all of its proper rotations.
+ * @param word Array of integers.
+ * @returns `true` if the word is a Lyndon word.
+ */
+export function isLyndon(word: readonly number[]) {
+  return (
+    !!word.length &&
+    numberOfModes(word) === word.length &&
+    !leastRotationIndex(word)
+  );
+}
+
+/**
+ * Count the distinct rotations of a word e.g. the number of distinct modes of a scale.
+ * @param word Array of integers.
+ * @returns The length of the shortest period of the word.
+ */
+export function numberOfModes(word: readonly number[]) {
+  const n = word.length;
+  for (let period = 1; period < n; ++period) {
+    if (n % period) {
+      continue;
+    }
+    let periodic = true;
+    for (let i = period; i < n; ++i) {
+      if (word[i] !== word[i - period]) {
+        periodic = false;
+        break;
+      }
+    }
+    if (periodic) {
+      return period;
+    }
+  }
+  return n;
+}
+
+/**
+ * Necklaces with fixed content
+ *
+ * Examples:
+ * ```ts
+ * [...iterNecklaces([5, 2])]  // [[0, 0, 0, 0, 0, 1, 1], [0, 0, 0, 0, 1, 0, 1], [0, 0, 0, 1, 0, 0, 1]]
+ * ```
+ * Uses the recursive algorithm of Sawada and Ruskey.
+ * @param counts Number of occurrences of each letter. The letter `i` occurs `counts[i]` times.
+ * @returns Generator of necklaces in lexicographic order each in its least rotation.
+ */
+export function* iterNecklaces(
+  counts: readonly number[],
+): Generator<number[], number, undefined> {
+  validateCounts(counts);
+  const letters: number[] = [];
+  const remaining: number[] = [];
+  for (let i = 0; i < counts.length; ++i) {
+    if (counts[i]) {
+      letters.push(i);
+      remaining.push(counts[i]);
+    }
+  }
+  const n = remaining.reduce((a, b) => a + b, 0);
+  if (!n) {
+    return 0;
+  }
+  // One-based prefix with a[0] acting as a sentinel.
+  const a: number[] = Array(n + 1).fill(0);
+  remaining[0]--;
+  let total = 0;
+
+  function* generate(t: number, p: number): Generator<number[]> {
+    if (t > n) {
+      if (n % p === 0) {
+        total++;
+        yield a.slice(1).map(index => letters[index]);
+      }
+      return;
+    }
+    for (let j = a[t - p]; j < remaining.length; ++j) {
+      if (remaining[j]) {
+        a[t] = j;
+        remaining[j]--;
+        yield* generate(t + 1, j === a[t - p] ? p : t);
+        remaining[j]++;
+      }
+    }
+  }
+
+  yield* generate(2, 1);
+  return total;
+}
+
+/**
+ * Necklaces with fixed content
+ * @param counts Number of occurrences of each letter. The letter `i` occurs `counts[i]` times.
+ * @returns Array of necklaces in lexicographic order each in its least rotation.
+ */
+export function necklaces(counts: readonly number[]) {
+  return [...iterNecklaces(counts)];
+}
+
+/**
+ * Bracelets with fixed content i.e. necklaces that are also considered equal under reflection
+ * @param counts Number of occurrences of each letter. The letter `i` occurs `counts[i]` times.
+ * @returns Generator of bracelets in lexicographic order each in its least rotation or reflection.
+ */
+export function* iterBracelets(
+  counts: readonly number[],
+): Generator<number[], number, undefined> {
+  let total = 0;
+  for (const necklace of iterNecklaces(counts)) {
+    if (compareWords(necklace, necklaceForm([...necklace].reverse())) <= 0) {
+      total++;
+      yield necklace;
+    }
+  }
+  return total;
+}
+
+/**
+ * Bracelets with fixed content i.e. necklaces that are also considered equal under reflection
+ * @param counts Number of occurrences of each letter. The letter `i` occurs `counts[i]` times.
+ * @returns Array of bracelets in lexicographic order each in its least rotation or reflection.
+ */
+export function bracelets(counts: readonly number[]) {
+  return [...iterBracelets(counts)];
+}
+
+// Distinct specific sizes of each generic interval.
+function specificSizeCounts(steps: readonly number[]) {
+  const n = steps.length;
+  const result: Set<number>[] = [];
+  for (let k = 1; k < n; ++k) {
+    const sizes = new Set<number>();
+    for (let i = 0; i < n; ++i) {
+      let size = 0;
+      for (let j = 0; j < k; ++j) {
+        size += steps[(i + j) % n];
+      }
+      sizes.add(size);
+    }
+    result.push(sizes);
+  }
+  return result;
+}
+
+/**
+ * Check if a scale has Myhill's property i.e. every generic interval comes in exactly two specific sizes.
+ * ```ts
+ * hasMyhillsProperty([2, 2, 1, 2, 2, 2, 1])  // true
+ * ```
+ * @param steps Step sizes of the scale.
+ * @returns `true` if the scale has Myhill's property.
+ */
+export function hasMyhillsProperty(steps: readonly number[]) {
+  if (steps.length < 2) {
+    return false;
+  }
+  return specificSizeCounts(steps).every(sizes => sizes.size === 2);
+}
+
+/**
+ * Check if a scale of an equal temperament is maximally even i.e. every generic interval comes in one size or two consecutive sizes.
+ * ```ts
+ * isMaximallyEven([2, 2, 1, 2, 2, 2, 1])  // true
+ * isMaximallyEven([2, 2, 2, 1, 1, 2, 2])  // false
+ * ```
+ * @param steps Step sizes of the scale as integer steps of the equal temperament.
+ * @returns `true` if the scale is maximally even.
+ */
+export function isMaximallyEven(steps: readonly number[]) {
+  return specificSizeCounts(steps).every(sizes => {
+    const values = [...sizes];
+    return (
+      values.length === 1 ||
+      (values.length === 2 && Math.abs(values[0] - values[1]) === 1)
+    );
+  });
+}
@@ -0,0 +1,279 @@
+import {Fraction} from './fraction.js';
+import {Monzo, applyWeights} from './monzo.js';
+import {PRIMES} from './primes.js';
+import {valueToCents} from './conversion.js';
+import {inv, matmul} from './basis.js';
+import {transpose} from './hnf.js';
+import {kCombinations} from './combinations.js';
+import {dot} from './number-array.js';
+import {Subgroup} from './subgroup.js';
+import {Temperament} from './temperament.js';
+
+/**
+ * Tuning of a regular temperament.
+ */
+export type TemperamentTuning = {
+  /** Sizes of the generators in cents. */
+  generators: number[];
+  /** Tempered sizes of the subgroup basis elements (primes) in cents. */
+  tuningMap: number[];
+  /** Differences between the tempered and just sizes of the basis elements in cents. */
+  errors: number[];
+};
+
+type TuningProblem = {
+  mapping: number[][];
+  subgroup: Subgroup;
+  justMap: number[];
+  weights: number[];
+};
+
+// Relative tolerance for considering two maximum errors equal.
+const TIE_EPSILON = 1e-9;
+
+function tuningProblem(
+  mapping: number[][] | Temperament,
+  subgroup?: Subgroup | string,
+): TuningProblem {
+  if (mapping instanceof Temperament) {
+    subgroup = mapping.subgroup;
+    mapping = mapping.mapping;
+  }
+  if (!mapping.length) {
+    throw new Error('Mapping must have at least one row');
+  }
+  const width = Math.max(...mapping.map(row => row.length));
+  if (subgroup === undefined) {
+    subgroup = Subgroup.fromPrimeLimit(PRIMES[width - 1]);
+  } else if (typeof subgroup === 'string') {
+    subgroup = new Subgroup(subgroup);
+  }
+  const dimension = subgroup.basis.length;
+  if (width > dimension) {
+    throw new Error(
+      `Mapping has ${width} columns but the subgroup ${subgroup} has only ${dimension} basis elements`,
+    );
+  }
+  const justMap = subgroup.basis.map(element =>
+    valueToCents(element.valueOf()),
+  );
+  return {
+    mapping: mapping.map(row => {
+      row = [...row];
+      while (row.length < dimension) {
+        row.push(0);
+      }
+      return row;
+    }),
+    subgroup,
+    justMap,
+    weights: justMap.map(cents => 1200 / cents),
+  };
+}
+
+function tuningResult(problem: TuningProblem, generators: number[]) {
+  const tuningMap = matmul(generators, problem.mapping);
+  return {
+    generators,
+    tuningMap,
+    errors: tuningMap.map((cents, i) => cents - problem.justMap[i]),
+  };
+}
+
+// A square mapping of full rank tempers nothing out so the just tuning is exact.
+function justTuning(problem: TuningProblem) {
+  if (problem.mapping.length !== problem.justMap.length) {
+    return undefined;
+  }
+  try {
+    return tuningResult(problem, matmul(problem.justMap, inv(problem.mapping)));
+  } catch {
+    return undefined;
+  }
+}
+
+// Least squares solution to x * A ≈ b for a row vector x.
+function leastSquares(A: number[][], b: number[]) {
+  const AT = transpose(A);
+  return matmul(matmul(b, AT), inv(matmul(A, AT)));
+}
+
+/**
+ * Minimize the maximum of |x * A_i - b_i| subject to x * C_j = d_j.
+ * The optimum is attained where as many errors as there are free parameters are equal in magnitude so all such vertices are tried.
+ * Ties are broken by the sum of squared errors.
+ */
+function chebyshev(
+  A: number[][],
+  b: number[],
+  C: number[][] = [],
+  d: number[] = [],
+) {
+  const numUnknowns = A.length;
+  const columns = [...Array(b.length).keys()];
+  const numActive = numUnknowns + 1 - C.length;
+  let best: number[] | undefined;
+  let bestMax = Infinity;
+  let bestSquares = Infinity;
+  for (const active of kCombinations(columns, numActive)) {
+    for (let signs = 0; signs < 1 << Math.max(0, numActive - 1); ++signs) {
+      // Unknowns are x followed by the common error E.
+      const system: number[][] = [];
+      const target: number[] = [];
+      for (let j = 0; j < C.length; ++j) {
+        system.push([...C[j], 0]);
+        target.push(d[j]);
+      }
+      for (let k = 0; k < active.length; ++k) {
+        const column = active[k];
+        const sign = k && signs & (1 << (k - 1)) ? -1 : 1;
+        system.push([...A.map(row => row[column]), -sign]);
+        target.push(b[column]);
+      }
+      let solution: number[];
+      try {
+        solution = matmul(inv(system), target);
+      } catch {
+        continue;
+      }
+      const x = solution.slice(0, numUnknowns);
+      if (x.some(c => !isFinite(c))) {
+        continue;
+      }
+      const errors = matmul(x, A).map((value, i) => value - b[i]);
+      const maximum = Math.max(...errors.map(Math.abs));
+      const squares = dot(errors, errors);
+      const tolerance = TIE_EPSILON * Math.max(1, bestMax);
+      if (
+        maximum < bestMax - tolerance ||
+        (maximum <= bestMax + tolerance && squares < bestSquares)
+      ) {
+        best = x;
+        bestMax = Math.min(bestMax, maximum);
+        bestSquares = squares;
+      }
+    }
+  }
+  if (best === undefined) {
+    throw new Error('Could not find a minimax solution');
+  }
+  return best;
+}
+
+/**
+ * Calculate the Tenney-Euclidean (TE) tuning of a temperament that minimizes the root-mean-square of the Tenney-weighted errors of the basis elements.
+ * @param mapping Mapping matrix or a temperament.
+ * @param subgroup Subgroup of the mapping. Defaults to the prime limit matching the width of the mapping.
+ * @returns The generators, the tempered tuning map and the errors of the basis elements in cents.
+ */
+export function teTuning(
+  mapping: number[][] | Temperament,
+  subgroup?: Subgroup | string,
+): TemperamentTuning {
+  const problem = tuningProblem(mapping, subgroup);
+  const A = problem.mapping.map(row => applyWeights(row, problem.weights));
+  const b = applyWeights(problem.justMap, problem.weights);
+  return tuningResult(problem, leastSquares(A, b));
+}
+
+/**
+ * Calculate the Pure-Octave Tenney-Euclidean (POTE) tuning of a temperament i.e. the TE tuning scaled to make the first basis element (the equave) pure.
+ * @param mapping Mapping matrix or a temperament.
+ * @param subgroup Subgroup of the mapping. Defaults to the prime limit matching the width of the mapping.
+ * @returns The generators, the tempered tuning map and the errors of the basis elements in cents.
+ */
+export function poteTuning(
+  mapping: number[][] | Temperament,
+  subgroup?: Subgroup | string,
+): TemperamentTuning {
+  const problem = tuningProblem(mapping, subgroup);
+  const {tuningMap, generators} = teTuning(problem.mapping, problem.subgroup);
+  const factor = problem.justMap[0] / tuningMap[0];
+  return tuningResult(
+    problem,
+    generators.map(g => g * factor),
+  );
+}
+
+/**
+ * Calculate the Constrained Tenney-Euclidean (CTE) tuning of a temperament that minimizes the TE error while keeping the first basis element (the equave) pure.
+ * @param mapping Mapping matrix or a temperament.
+ * @param subgroup Subgroup of the mapping. Defaults to the prime limit matching the width of the mapping.
+ * @returns The generators, the tempered tuning map and the errors of the basis elements in cents.
+ */
+export function cteTuning(
+  mapping: number[][] | Temperament,
+  subgroup?: Subgroup | string,
+): TemperamentTuning {
+  const problem = tuningProblem(mapping, subgroup);
+  const A = problem.mapping.map(row => applyWeights(row, problem.weights));
+  const b = applyWeights(problem.justMap, problem.weights);
+  const AAT = matmul(A, transpose(A));
+  const Ab = matmul(A, b);
+  const equave = problem.mapping.map(row => row[0]);
+  // Lagrange multiplier system for minimizing |xA - b|² subject to x · equave = just equave.
+  const system = AAT.map((row, i) => [...row, equave[i]]);
+  system.push([...equave, 0]);
+  const solution = matmul(inv(system), [...Ab, problem.justMap[0]]);
+  return tuningResult(problem, solution.slice(0, problem.mapping.length));
+}
+
+/**
+ * Calculate the Tenney OPtimal (TOP) tuning of a temperament that minimizes the maximum Tenney-weighted error of the basis elements.
+ * Ties are broken by the smallest Tenney-Euclidean error, which agrees with TIPTOP for the common cases.
+ * @param mapping Mapping matrix or a temperament.
+ * @param subgroup Subgroup of the mapping. Defaults to the prime limit matching the width of the mapping.
+ * @returns The generators, the tempered tuning map and the errors of the basis elements in cents.
+ */
+export function topTuning(
+  mapping: number[][] | Temperament,
+  subgroup?: Subgroup | string,
+): TemperamentTuning {
+  const problem = tuningProblem(mapping, subgroup);
+  const just = justTuning(problem);
+  if (just !== undefined) {
+    return just;
+  }
+  const A = problem.mapping.map(row => applyWeights(row, problem.weights));
+  const b = applyWeights(problem.justMap, problem.weights);
+  return tuningResult(problem, chebyshev(A, b));
+}
+
+/**
+ * Calculate the minimax tuning of a temperament that minimizes the maximum unweighted error over the tonality diamond of an odd limit while keeping the first basis element (the equave) pure.
+ * Intervals of the tonality diamond outside the subgroup are ignored.
+ * @param mapping Mapping matrix or a temperament.
+ * @param oddLimit Odd limit of the tonality diamond.
+ * @param subgroup Subgroup of the mapping. Defaults to the prime limit matching the width of the mapping.
+ * @returns The generators, the tempered tuning map and the errors of the basis elements in cents.
+ */
+export function minimaxTuning(
+  mapping: number[][] | Temperament,
+  oddLimit: number,
+  subgroup?: Subgroup | string,
+): TemperamentTuning {
+  const problem = tuningProblem(mapping, subgroup);
+  const just = justTuning(problem);
+  if (just !== undefined) {
+    return just;
+  }
+  const intervals: Monzo[] = [];
+  for (let n = 1; n <= oddLimit; n += 2) {
+    for (let d = 1; d < n; d += 2) {
+      const interval = new Fraction(n, d);
+      if (interval.d !== d) {
+        continue;
+      }
+      if (problem.subgroup.contains(interval)) {
+        intervals.push(problem.subgroup.toMonzo(interval));
+      }
+    }
+  }
+  if (!intervals.length) {
+    throw new Error('No intervals of the tonality diamond in the subgroup');
+  }
+  const A = matmul(problem.mapping, transpose(intervals));
+  const b = intervals.map(interval => dot(interval, problem.justMap));
+  const equave = problem.mapping.map(row => row[0]);
+  return tuningResult(problem, chebyshev(A, b, [equave], [problem.justMap[0]]));
+}
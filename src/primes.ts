@@ -102,12 +102,84 @@ PRIME_CENTS[0] = 1200; // Ensure that octaves are exact.
  */
 export const BIG_INT_PRIMES = PRIMES.map(BigInt);
 
+// Miller–Rabin with these bases is deterministic below 3317044064679887385961981.
+const MILLER_RABIN_BASES = BIG_INT_PRIMES.slice(0, 13);
+const MILLER_RABIN_LIMIT = 3317044064679887385961981n;
+// Additional bases used above the deterministic limit.
+const EXTRA_MILLER_RABIN_BASES = BIG_INT_PRIMES.slice(13, 64);
+
+function bigGcd(a: bigint, b: bigint) {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint) {
+  let result = 1n;
+  base %= modulus;
+  while (exponent) {
+    if (exponent & 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+// Condition: n odd and larger than the largest base
+function millerRabin(n: bigint) {
+  let d = n - 1n;
+  let r = 0;
+  while (!(d & 1n)) {
+    d >>= 1n;
+    r++;
+  }
+  const bases =
+    n < MILLER_RABIN_LIMIT
+      ? MILLER_RABIN_BASES
+      : MILLER_RABIN_BASES.concat(EXTRA_MILLER_RABIN_BASES);
+  witness: for (const base of bases) {
+    let x = modPow(base, d, n);
+    if (x === 1n || x === n - 1n) {
+      continue;
+    }
+    for (let i = 1; i < r; ++i) {
+      x = (x * x) % n;
+      if (x === n - 1n) {
+        continue witness;
+      }
+    }
+    return false;
+  }
+  return true;
+}
+
+function isBigPrime(n: bigint) {
+  if (n < 7927n) {
+    return PRIMES.includes(Number(n));
+  }
+  for (const prime of MILLER_RABIN_BASES) {
+    if (!(n % prime)) {
+      return false;
+    }
+  }
+  return millerRabin(n);
+}
+
 /**
  * Check a number for primality.
+ *
+ * Numbers above 62837328 and BigInts are checked using the Miller–Rabin test which is deterministic below 3317044064679887385961981.
+ * Above that the test uses 64 bases and is wrong with negligible probability.
  * @param n Number to check.
  * @returns True if the number is prime, false otherwise.
  */
-export function isPrime(n: number) {
+export function isPrime(n: number | bigint) {
+  if (typeof n === 'bigint') {
+    return isBigPrime(n);
+  }
   if (n < 7927) {
     return PRIMES.includes(n);
   }
@@ -115,7 +187,7 @@ export function isPrime(n: number) {
     return false;
   }
   if (n > 62837328) {
-    throw new Error('Prime check only implemented up to 62837328');
+    return isBigPrime(BigInt(n));
   }
   for (const prime of PRIMES) {
     if (prime * prime > n) {
@@ -128,28 +200,235 @@ export function isPrime(n: number) {
   return true;
 }
 
+// Brent's cycle detection on x -> x² + c mod n with gcds computed in batches.
+// Returns n if the cycle closes without a factor and 0 if the iterations run out.
+function brentFactor(n: bigint, c: bigint, maxIterations: number) {
+  const batchSize = 128;
+  let y = 2n;
+  let x = y;
+  let ys = y;
+  let q = 1n;
+  let g = 1n;
+  let iterations = 0;
+  for (let r = 1; g === 1n; r *= 2) {
+    x = y;
+    for (let i = 0; i < r; ++i) {
+      y = (y * y + c) % n;
+    }
+    for (let k = 0; k < r && g === 1n; k += batchSize) {
+      ys = y;
+      for (let i = 0; i < Math.min(batchSize, r - k); ++i) {
+        y = (y * y + c) % n;
+        q = (q * (x > y ? x - y : y - x)) % n;
+      }
+      g = bigGcd(q, n);
+      iterations += batchSize;
+    }
+    if (iterations > maxIterations) {
+      return 0n;
+    }
+  }
+  if (g === n) {
+    // The batch overshot. Backtrack one step at a time.
+    do {
+      ys = (ys * ys + c) % n;
+      g = bigGcd(x > ys ? x - ys : ys - x, n);
+    } while (g === 1n);
+  }
+  return g;
+}
+
+/**
+ * Find a non-trivial factor of a composite number using Pollard's rho algorithm with Brent's cycle detection.
+ * ```ts
+ * pollardBrent(8051)  // 97
+ * pollardBrent(10403n)  // 101n
+ * ```
+ * @param n Integer to find a factor of.
+ * @param maxIterations Maximum number of iterations before giving up.
+ * @returns A factor of `n` strictly between 1 and `n` or `n` itself if the number is prime or no factor was found.
+ */
+export function pollardBrent(n: number, maxIterations?: number): number;
+export function pollardBrent(n: bigint, maxIterations?: number): bigint;
+export function pollardBrent(
+  n: number | bigint,
+  maxIterations = 262144,
+): number | bigint {
+  if (typeof n === 'number') {
+    return Number(pollardBrent(BigInt(n), maxIterations));
+  }
+  if (n < 4n) {
+    return n;
+  }
+  if (!(n & 1n)) {
+    return 2n;
+  }
+  if (isBigPrime(n)) {
+    return n;
+  }
+  for (let c = 1n; c < 16n; ++c) {
+    const factor = brentFactor(n, c, maxIterations);
+    if (!factor) {
+      return n;
+    }
+    if (factor !== n) {
+      return factor;
+    }
+  }
+  return n;
+}
+
+// Split an integer without small prime factors into primes accumulating exponents into the result.
+function splitResidual(n: bigint, result: Map<bigint, number>) {
+  if (n === 1n) {
+    return;
+  }
+  if (isBigPrime(n)) {
+    result.set(n, (result.get(n) ?? 0) + 1);
+    return;
+  }
+  const factor = pollardBrent(n);
+  if (factor === n) {
+    throw new Error(
+      `Failed to find a factor of a ${n.toString(2).length}-bit residual.`,
+    );
+  }
+  splitResidual(factor, result);
+  splitResidual(n / factor, result);
+}
+
+/**
+ * Factorize a positive BigInt using trial division followed by Miller–Rabin and Pollard–Brent.
+ * ```ts
+ * factorizeBigInt(360n)  // [[2n, 3], [3n, 2], [5n, 1]]
+ * ```
+ * @param n Positive integer to factorize.
+ * @returns Pairs of prime factors and their exponents in ascending order.
+ * @throws An error if the argument is not positive or if a composite factor cannot be split.
+ */
+export function factorizeBigInt(n: bigint): [bigint, number][] {
+  if (n < 1n) {
+    throw new Error('Argument must be a positive integer');
+  }
+  const result = new Map<bigint, number>();
+  for (const prime of BIG_INT_PRIMES) {
+    if (prime * prime > n) {
+      break;
+    }
+    while (n % prime === 0n) {
+      result.set(prime, (result.get(prime) ?? 0) + 1);
+      n /= prime;
+    }
+  }
+  splitResidual(n, result);
+  return [...result].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+// Length of the blocks processed by the segmented sieve.
+const SEGMENT_SIZE = 32768;
+
+// Primes available for sieving. Extended on demand.
+const sievingPrimes = [...PRIMES];
+
+// Make sure that primes up to sqrt(high) are available for sieving below high.
+function extendSievingPrimes(high: number) {
+  let last = sievingPrimes[sievingPrimes.length - 1];
+  while (last * last < high) {
+    const low = last + 1;
+    const composite = sieveSegment(low, low + SEGMENT_SIZE);
+    for (let i = 0; i < SEGMENT_SIZE; ++i) {
+      if (!composite[i]) {
+        sievingPrimes.push(low + i);
+      }
+    }
+    last = sievingPrimes[sievingPrimes.length - 1];
+  }
+}
+
+// Mark the composites in the range [low, high). Condition: 2 <= low and the sieving primes reach sqrt(high).
+function sieveSegment(low: number, high: number) {
+  const composite = new Uint8Array(high - low);
+  for (const prime of sievingPrimes) {
+    const square = prime * prime;
+    if (square >= high) {
+      break;
+    }
+    let multiple = Math.max(square, Math.ceil(low / prime) * prime);
+    for (; multiple < high; multiple += prime) {
+      composite[multiple - low] = 1;
+    }
+  }
+  return composite;
+}
+
+/**
+ * Iterate over the prime numbers using a segmented Sieve of Eratosthenes.
+ * ```ts
+ * const primes = iterPrimes(100);
+ * primes.next().value  // 101
+ * primes.next().value  // 103
+ * ```
+ * @param start Smallest prime number to include (or the next smallest prime).
+ * @yields Prime numbers in ascending order without end.
+ */
+export function* iterPrimes(
+  start = 2,
+): Generator<number, undefined, undefined> {
+  for (const prime of PRIMES) {
+    if (prime >= start) {
+      yield prime;
+    }
+  }
+  let low = Math.max(Math.ceil(start), 7920);
+  while (true) {
+    const high = low + SEGMENT_SIZE;
+    extendSievingPrimes(high);
+    const composite = sieveSegment(low, high);
+    for (let i = 0; i < SEGMENT_SIZE; ++i) {
+      if (!composite[i]) {
+        yield low + i;
+      }
+    }
+    low = high;
+  }
+}
+
+/**
+ * Count the prime numbers less than or equal to a given number.
+ * ```ts
+ * primePi(100)  // 25
+ * ```
+ * @param n Upper bound for the primes.
+ * @returns The number of primes p such that p <= n.
+ */
+export function primePi(n: number) {
+  n = Math.floor(n);
+  if (n < 7927) {
+    const index = PRIMES.findIndex(prime => prime > n);
+    return index < 0 ? PRIMES.length : index;
+  }
+  let result = PRIMES.length;
+  for (let low = 7920; low <= n; low += SEGMENT_SIZE) {
+    const high = Math.min(low + SEGMENT_SIZE, n + 1);
+    extendSievingPrimes(high);
+    const composite = sieveSegment(low, high);
+    for (let i = 0; i < composite.length; ++i) {
+      result += 1 - composite[i];
+    }
+  }
+  return result;
+}
+
 /**
  * Obtain the prime at index `n` in the sequence `[2, 3, 5, 7, ...]`.
  * @param n Zero-based index into the prime sequence. Non-integer or negative inputs return `undefined`.
  * @returns The prime at the given index.
  */
 export function nthPrime(n: number) {
-  if (n < PRIMES.length) {
+  if (n < PRIMES.length || !Number.isInteger(n)) {
     return PRIMES[n];
   }
-  n -= PRIMES.length;
-  let prime = 7927;
-  while (n) {
-    // Skip over known composites mod 6.
-    prime += 4;
-    n -= Number(isPrime(prime));
-    if (!n) {
-      return prime;
-    }
-    prime += 2;
-    n -= Number(isPrime(prime));
-  }
-  return prime;
+  return primeRange(n, n + 1)[0];
 }
 
 /**
@@ -163,44 +442,12 @@ export function primes(start: number, end?: number) {
     end = start;
     start = 2;
   }
-  if (start > end || end < 2) {
-    return [];
-  }
-  if (start <= 2) {
-    if (end < 3) {
-      return [2];
-    }
-    start = 2;
-  } else {
-    start = Math.ceil((start + 1) * 0.5) * 2 - 1;
-    while (!isPrime(start)) {
-      start += 2;
-    }
-  }
-  end = Math.floor((end + 1) * 0.5) * 2 - 1;
-  while (!isPrime(end)) {
-    end -= 2;
-  }
-
-  const startIndex = PRIMES.indexOf(start);
-  const endIndex = PRIMES.indexOf(end);
-
-  let result: number[];
-  if (endIndex < 0) {
-    if (startIndex >= 0) {
-      result = PRIMES.slice(startIndex);
-      start = 7927;
-    } else {
-      result = [];
-    }
-  } else {
-    return PRIMES.slice(startIndex, endIndex + 1);
-  }
-
-  for (let n = start; n <= end; n += 2) {
-    if (isPrime(n)) {
-      result.push(n);
+  const result: number[] = [];
+  for (const prime of iterPrimes(start)) {
+    if (prime > end) {
+      break;
     }
+    result.push(prime);
   }
   return result;
 }
@@ -225,43 +472,15 @@ export function primeRange(start: number, end?: number) {
     return PRIMES.slice(start, end);
   }
   const result = PRIMES.slice(start);
-  start = Math.max(0, start - PRIMES.length);
-  end -= PRIMES.length;
-
-  // We skip over known composites mod 6.
-  let prime = 7927;
-  let delta: number;
-  let a = 4;
-  let b = 2;
-  while (start) {
-    prime += 4;
-    delta = Number(isPrime(prime));
-    start -= delta;
-    end -= delta;
-    if (!start) {
-      a = 2;
-      b = 4;
+  let index = PRIMES.length;
+  for (const prime of iterPrimes(7920)) {
+    if (index >= end) {
       break;
     }
-    prime += 2;
-    delta = Number(isPrime(prime));
-    start -= delta;
-    end -= delta;
-  }
-  while (end) {
-    if (isPrime(prime)) {
-      result.push(prime);
-      end--;
-      if (!end) {
-        return result;
-      }
-    }
-    prime += a;
-    if (isPrime(prime)) {
+    if (index >= start) {
       result.push(prime);
-      end--;
     }
-    prime += b;
+    index++;
   }
   return result;
 }
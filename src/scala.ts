@@ -0,0 +1,408 @@
+import {centOffsetToFrequency, mtof, valueToCents} from './conversion.js';
+import {Fraction, mmod} from './fraction.js';
+
+/**
+ * Pitch in a Scala scale. Ratios are represented as fractions and cents values as numbers.
+ */
+export type ScalaPitch = Fraction | number;
+
+/**
+ * Contents of a Scala .scl file.
+ */
+export type ScalaScale = {
+  /** One line description of the scale. May be empty. */
+  description: string;
+  /** Pitches of the scale not including the implicit 1/1 at the start, but including the interval of repetition at the end. */
+  pitches: ScalaPitch[];
+};
+
+/**
+ * Contents of a Scala .kbm keyboard mapping file.
+ */
+export type KeyboardMapping = {
+  /** Size of the map. The pattern repeats every so many keys. Zero means a linear mapping. */
+  mapSize: number;
+  /** First MIDI note number to retune. */
+  firstNote: number;
+  /** Last MIDI note number to retune. */
+  lastNote: number;
+  /** MIDI note number where the first entry of the mapping is mapped to. */
+  middleNote: number;
+  /** MIDI note number for which the reference frequency is given. */
+  referenceNote: number;
+  /** Frequency of the reference note in Hertz. */
+  referenceFrequency: number;
+  /** Scale degree to consider as the formal octave i.e. the difference in pitch between adjacent mapping patterns. Zero means the last degree of the scale. */
+  octaveDegree: number;
+  /** Scale degrees mapped to keys starting from the middle note. `null` represents an unmapped key. Missing entries at the end are unmapped. */
+  mapping: (number | null)[];
+};
+
+const KBM_HEADER = [
+  'Size of map',
+  'First MIDI note number to retune',
+  'Last MIDI note number to retune',
+  'Middle note where the first entry of the mapping is mapped to',
+  'Reference note for which frequency is given',
+  'Frequency to tune the above note to',
+  'Scale degree to consider as formal octave',
+];
+
+const MIDI_NOTE_COUNT = 128;
+
+const CENTS_PATTERN = /^[+-]?(\d+\.\d*|\.\d+)$/;
+const RATIO_PATTERN = /^\d+(\/\d+)?$/;
+
+// Yields non-comment lines with their 1-based line numbers.
+function* contentLines(text: string): Generator<[string, number]> {
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; ++i) {
+    if (lines[i].startsWith('!')) {
+      continue;
+    }
+    yield [lines[i], i + 1];
+  }
+}
+
+/**
+ * Parse a single pitch line of a Scala .scl file. Text after the value is ignored.
+ * @param line Line to parse.
+ * @returns The pitch as a fraction or a number of cents.
+ * @throws An error if the line doesn't start with a valid pitch.
+ */
+export function parseScalaPitch(line: string): ScalaPitch {
+  const token = line.trim().split(/\s+/, 1)[0];
+  if (CENTS_PATTERN.test(token)) {
+    return parseFloat(token);
+  }
+  if (RATIO_PATTERN.test(token)) {
+    const ratio = new Fraction(token);
+    if (!ratio.n) {
+      throw new Error(`Invalid ratio '${token}'`);
+    }
+    return ratio;
+  }
+  throw new Error(`Invalid pitch '${token}'`);
+}
+
+/**
+ * Parse the contents of a Scala .scl file.
+ *
+ * Blank lines are ignored after the note count.
+ * In strict mode the number of pitches must match the note count and every pitch line must be valid.
+ * In lenient mode invalid pitch lines are skipped and the note count is only used as an upper limit.
+ * @param text Contents of the .scl file.
+ * @param strict Throw on any deviation from the specification.
+ * @returns The description and pitches of the scale.
+ * @throws An error with the offending line number if the file cannot be parsed.
+ */
+export function parseScl(text: string, strict = true): ScalaScale {
+  const lines = contentLines(text);
+
+  let next = lines.next();
+  if (next.done) {
+    throw new Error('Missing description line');
+  }
+  const description = next.value[0].trim();
+
+  next = lines.next();
+  if (next.done) {
+    throw new Error('Missing note count line');
+  }
+  let [line, lineNumber] = next.value;
+  const countToken = line.trim().split(/\s+/, 1)[0];
+  if (!/^\d+$/.test(countToken)) {
+    throw new Error(`Line ${lineNumber}: Invalid note count '${countToken}'`);
+  }
+  const count = parseInt(countToken, 10);
+
+  const pitches: ScalaPitch[] = [];
+  for ([line, lineNumber] of lines) {
+    if (pitches.length >= count) {
+      if (strict && line.trim()) {
+        throw new Error(
+          `Line ${lineNumber}: Expected ${count} pitches but found more`,
+        );
+      }
+      continue;
+    }
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      pitches.push(parseScalaPitch(line));
+    } catch (e) {
+      if (strict) {
+        throw new Error(`Line ${lineNumber}: ${(e as Error).message}`);
+      }
+    }
+  }
+  if (strict && pitches.length < count) {
+    throw new Error(
+      `Expected ${count} pitches but found only ${pitches.length}`,
+    );
+  }
+  return {description, pitches};
+}
+
+/**
+ * Format a pitch as a line in a Scala .scl file.
+ * @param pitch Fraction or a number of cents.
+ * @returns A string with a period if the pitch is in cents or a slash if it's a ratio.
+ */
+export function formatScalaPitch(pitch: ScalaPitch) {
+  if (typeof pitch === 'number') {
+    if (!isFinite(pitch)) {
+      throw new Error(`Cannot represent ${pitch} cents`);
+    }
+    if (Number.isInteger(pitch)) {
+      return pitch.toFixed(1);
+    }
+    const result = pitch.toString();
+    if (result.includes('e')) {
+      return pitch.toFixed(12);
+    }
+    return result;
+  }
+  if (pitch.s !== 1) {
+    throw new Error(`Cannot represent ratio ${pitch.toFraction()}`);
+  }
+  return `${pitch.n}/${pitch.d}`;
+}
+
+/**
+ * Serialize a scale into the Scala .scl file format.
+ * @param scale Scale to serialize.
+ * @param filename Optional filename to include in the header comment.
+ * @returns Contents of a .scl file.
+ */
+export function serializeScl(scale: ScalaScale, filename?: string) {
+  if (scale.description.includes('\n')) {
+    throw new Error('Description must fit on a single line');
+  }
+  const lines: string[] = [];
+  if (filename !== undefined) {
+    lines.push(`! ${filename}`);
+  }
+  lines.push('!');
+  lines.push(scale.description);
+  lines.push(` ${scale.pitches.length}`);
+  lines.push('!');
+  for (const pitch of scale.pitches) {
+    lines.push(` ${formatScalaPitch(pitch)}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Measure a Scala pitch in cents.
+ * @param pitch Fraction or a number of cents.
+ * @returns The size of the pitch in cents.
+ */
+export function scalaPitchToCents(pitch: ScalaPitch) {
+  if (typeof pitch === 'number') {
+    return pitch;
+  }
+  return valueToCents(pitch.valueOf());
+}
+
+const FREQUENCY_INDEX = 5;
+
+function parseKbmHeaderValue(token: string, index: number) {
+  const what = KBM_HEADER[index].toLowerCase();
+  if (index === FREQUENCY_INDEX) {
+    const frequency = parseFloat(token);
+    if (!/^\d*\.?\d*$/.test(token) || !(frequency > 0)) {
+      throw new Error(`Invalid ${what} '${token}'`);
+    }
+    return frequency;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid ${what} '${token}'`);
+  }
+  const value = parseInt(token, 10);
+  if (index >= 1 && index <= 4 && value >= MIDI_NOTE_COUNT) {
+    throw new Error(`Out of MIDI range: ${what} ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Parse the contents of a Scala .kbm keyboard mapping file.
+ *
+ * Blank lines are ignored.
+ * In strict mode the mapping may not have more entries than the map size and every entry must be a scale degree or an 'x'.
+ * In lenient mode extra entries are ignored and invalid entries are treated as unmapped keys.
+ * @param text Contents of the .kbm file.
+ * @param strict Throw on any deviation from the specification.
+ * @returns The keyboard mapping.
+ * @throws An error with the offending line number if the file cannot be parsed.
+ */
+export function parseKbm(text: string, strict = true): KeyboardMapping {
+  const lines = contentLines(text);
+  const header: number[] = [];
+  for (let i = 0; i < KBM_HEADER.length; ++i) {
+    let next = lines.next();
+    while (!next.done && !next.value[0].trim()) {
+      next = lines.next();
+    }
+    if (next.done) {
+      throw new Error(`Missing line: ${KBM_HEADER[i]}`);
+    }
+    const [line, lineNumber] = next.value;
+    try {
+      header.push(parseKbmHeaderValue(line.trim().split(/\s+/, 1)[0], i));
+    } catch (e) {
+      throw new Error(`Line ${lineNumber}: ${(e as Error).message}`);
+    }
+  }
+  const [
+    mapSize,
+    firstNote,
+    lastNote,
+    middleNote,
+    referenceNote,
+    referenceFrequency,
+    octaveDegree,
+  ] = header;
+
+  const mapping: (number | null)[] = [];
+  for (const [line, lineNumber] of lines) {
+    const token = line.trim().split(/\s+/, 1)[0];
+    if (!token) {
+      continue;
+    }
+    if (mapping.length >= mapSize) {
+      if (strict) {
+        throw new Error(
+          `Line ${lineNumber}: Expected ${mapSize} mapping entries but found more`,
+        );
+      }
+      continue;
+    }
+    if (token.toLowerCase() === 'x') {
+      mapping.push(null);
+    } else if (/^\d+$/.test(token)) {
+      mapping.push(parseInt(token, 10));
+    } else if (strict) {
+      throw new Error(`Line ${lineNumber}: Invalid mapping entry '${token}'`);
+    } else {
+      mapping.push(null);
+    }
+  }
+
+  return {
+    mapSize,
+    firstNote,
+    lastNote,
+    middleNote,
+    referenceNote,
+    referenceFrequency,
+    octaveDegree,
+    mapping,
+  };
+}
+
+/**
+ * Serialize a keyboard mapping into the Scala .kbm file format.
+ * @param mapping Keyboard mapping to serialize.
+ * @param filename Optional filename to include in the header comment.
+ * @returns Contents of a .kbm file.
+ */
+export function serializeKbm(mapping: KeyboardMapping, filename?: string) {
+  if (mapping.mapping.length > mapping.mapSize) {
+    throw new Error('Mapping has more entries than the map size');
+  }
+  const lines: string[] = [];
+  if (filename !== undefined) {
+    lines.push(`! ${filename}`);
+  }
+  const frequency = mapping.referenceFrequency.toString();
+  const values = [
+    mapping.mapSize,
+    mapping.firstNote,
+    mapping.lastNote,
+    mapping.middleNote,
+    mapping.referenceNote,
+    frequency.includes('.') ? frequency : `${frequency}.0`,
+    mapping.octaveDegree,
+  ];
+  for (let i = 0; i < KBM_HEADER.length; ++i) {
+    lines.push(`! ${KBM_HEADER[i]}:`);
+    lines.push(`${values[i]}`);
+  }
+  lines.push('! Mapping.');
+  for (const entry of mapping.mapping) {
+    lines.push(entry === null ? 'x' : `${entry}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Calculate the frequencies of all MIDI notes when a scale is mapped to the keyboard.
+ *
+ * Unmapped keys and keys outside the retuned range keep their 12-tone equal temperament frequencies.
+ * @param pitches Pitches of the scale not including the implicit 1/1 at the start, but including the interval of repetition at the end.
+ * @param mapping Keyboard mapping.
+ * @returns An array of 128 frequencies in Hertz indexed by MIDI note number.
+ * @throws An error if the reference note is unmapped or the scale is empty.
+ */
+export function kbmFrequencyTable(
+  pitches: ScalaPitch[],
+  mapping: KeyboardMapping,
+) {
+  const size = pitches.length;
+  if (!size) {
+    throw new Error('Cannot map an empty scale');
+  }
+  const scaleCents = [0, ...pitches.map(scalaPitchToCents)];
+  const period = scaleCents.pop()!;
+
+  function degreeCents(degree: number) {
+    return scaleCents[mmod(degree, size)] + Math.floor(degree / size) * period;
+  }
+
+  const octaveCents = mapping.octaveDegree
+    ? degreeCents(mapping.octaveDegree)
+    : period;
+
+  function keyCents(key: number) {
+    const offset = key - mapping.middleNote;
+    if (!mapping.mapSize) {
+      return degreeCents(offset);
+    }
+    const degree = mapping.mapping[mmod(offset, mapping.mapSize)];
+    if (degree === null || degree === undefined) {
+      return undefined;
+    }
+    return (
+      degreeCents(degree) + Math.floor(offset / mapping.mapSize) * octaveCents
+    );
+  }
+
+  const referenceCents = keyCents(mapping.referenceNote);
+  if (referenceCents === undefined) {
+    throw new Error('Reference note is unmapped');
+  }
+
+  const result: number[] = [];
+  for (let key = 0; key < MIDI_NOTE_COUNT; ++key) {
+    const cents =
+      key < mapping.firstNote || key > mapping.lastNote
+        ? undefined
+        : keyCents(key);
+    if (cents === undefined) {
+      result.push(mtof(key));
+    } else {
+      result.push(
+        centOffsetToFrequency(
+          cents - referenceCents,
+          mapping.referenceFrequency,
+        ),
+      );
+    }
+  }
+  return result;
+}
@@ -0,0 +1,213 @@
+import {Fraction, FractionValue} from './fraction.js';
+import {Monzo} from './monzo.js';
+
+// Absolute tolerance for comparing Tenney heights.
+const HEIGHT_EPSILON = 1e-9;
+
+type HeapEntry = {
+  value: number;
+  // Index of the largest prime factor. Only primes from here onwards are multiplied in to avoid duplicates.
+  index: number;
+  monzo: Monzo;
+};
+
+// Binary min-heap ordered by value.
+function heapPush(heap: HeapEntry[], entry: HeapEntry) {
+  let i = heap.length;
+  heap.push(entry);
+  while (i) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].value <= entry.value) {
+      break;
+    }
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = entry;
+}
+
+function heapPop(heap: HeapEntry[]) {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length) {
+    let i = 0;
+    while (true) {
+      let child = 2 * i + 1;
+      if (child >= heap.length) {
+        break;
+      }
+      if (
+        child + 1 < heap.length &&
+        heap[child + 1].value < heap[child].value
+      ) {
+        child++;
+      }
+      if (heap[child].value >= last.value) {
+        break;
+      }
+      heap[i] = heap[child];
+      i = child;
+    }
+    heap[i] = last;
+  }
+  return top;
+}
+
+function validatePrimes(primes: number[]) {
+  for (const prime of primes) {
+    if (!Number.isInteger(prime) || prime < 2) {
+      throw new Error('Primes must be integers greater than 1');
+    }
+  }
+}
+
+/**
+ * Smooth numbers together with their prime exponents
+ *
+ * Examples:
+ * ```ts
+ * [...iterSmoothMonzos([2, 3], 6)]  // [[0, 0], [1, 0], [0, 1], [2, 0], [1, 1]]
+ * ```
+ * Uses a heap to produce the numbers in order like the classic Hamming number problem.
+ * @param primes List of primes e.g. from {@link primeRange}.
+ * @param end Largest number to include.
+ * @param start Smallest number to include.
+ * @returns Generator of monzos over `primes` in ascending order of the numbers they represent.
+ * @throws An error if the primes are not integers greater than 1.
+ */
+export function* iterSmoothMonzos(
+  primes: number[],
+  end = Infinity,
+  start = 1,
+): Generator<Monzo, undefined, undefined> {
+  validatePrimes(primes);
+  const heap: HeapEntry[] = [
+    {value: 1, index: 0, monzo: Array(primes.length).fill(0)},
+  ];
+  while (heap.length) {
+    const {value, index, monzo} = heapPop(heap);
+    if (value > end) {
+      return;
+    }
+    for (let i = index; i < primes.length; ++i) {
+      const next = value * primes[i];
+      if (next <= end) {
+        const nextMonzo = [...monzo];
+        nextMonzo[i]++;
+        heapPush(heap, {value: next, index: i, monzo: nextMonzo});
+      }
+    }
+    if (value >= start) {
+      yield monzo;
+    }
+  }
+}
+
+/**
+ * Smooth numbers i.e. integers with prime factors restricted to a given list
+ *
+ * Examples:
+ * ```ts
+ * [...iterSmoothNumbers([2, 3, 5], 12)]  // [1, 2, 3, 4, 5, 6, 8, 9, 10, 12]
+ * ```
+ * @param primes List of primes e.g. from {@link primeRange}.
+ * @param end Largest number to include.
+ * @param start Smallest number to include.
+ * @returns Generator of smooth numbers in ascending order.
+ * @throws An error if the primes are not integers greater than 1.
+ */
+export function* iterSmoothNumbers(
+  primes: number[],
+  end = Infinity,
+  start = 1,
+): Generator<number, undefined, undefined> {
+  for (const monzo of iterSmoothMonzos(primes, end, start)) {
+    let value = 1;
+    for (let i = 0; i < primes.length; ++i) {
+      value *= primes[i] ** monzo[i];
+    }
+    yield value;
+  }
+}
+
+/**
+ * Smooth numbers i.e. integers with prime factors restricted to a given list
+ * @param primes List of primes e.g. from {@link primeRange}.
+ * @param end Largest number to include.
+ * @param start Smallest number to include.
+ * @returns Array of smooth numbers in ascending order.
+ * @throws An error if the primes are not integers greater than 1.
+ */
+export function smoothNumbers(primes: number[], end: number, start = 1) {
+  return [...iterSmoothNumbers(primes, end, start)];
+}
+
+/**
+ * Ratios of smooth numbers in lowest terms bounded by Tenney height
+ *
+ * Examples:
+ * ```ts
+ * [...iterSmoothRatios([2, 3, 5], Math.log(20))].map(f => f.toFraction())  // ["1", "2", "3/2", "4/3", "5/3", "5/4"]
+ * ```
+ * Each product of numerator and denominator is produced in order and split into coprime factors.
+ * @param primes List of primes e.g. from {@link primeRange}.
+ * @param maxHeight Largest Tenney height i.e. natural logarithm of the product of the numerator and the denominator.
+ * @param start Smallest ratio to include.
+ * @param end Largest ratio to include.
+ * @returns Generator of fractions in ascending order of Tenney height and then size.
+ * @throws An error if the primes are not integers greater than 1.
+ */
+export function* iterSmoothRatios(
+  primes: number[],
+  maxHeight: number,
+  start: FractionValue = 1,
+  end: FractionValue = 2,
+): Generator<Fraction, undefined, undefined> {
+  const lower = new Fraction(start);
+  const upper = new Fraction(end);
+  const maxProduct = Math.exp(maxHeight + HEIGHT_EPSILON);
+  for (const monzo of iterSmoothMonzos(primes, maxProduct)) {
+    const powers: number[] = [];
+    for (let i = 0; i < primes.length; ++i) {
+      if (monzo[i]) {
+        powers.push(primes[i] ** monzo[i]);
+      }
+    }
+    const ratios: Fraction[] = [];
+    for (let mask = 0; mask < 1 << powers.length; ++mask) {
+      let n = 1;
+      let d = 1;
+      for (let i = 0; i < powers.length; ++i) {
+        if (mask & (1 << i)) {
+          d *= powers[i];
+        } else {
+          n *= powers[i];
+        }
+      }
+      const ratio = new Fraction(n, d);
+      if (ratio.compare(lower) >= 0 && ratio.compare(upper) <= 0) {
+        ratios.push(ratio);
+      }
+    }
+    ratios.sort((a, b) => a.compare(b));
+    yield* ratios;
+  }
+}
+
+/**
+ * Ratios of smooth numbers in lowest terms bounded by Tenney height
+ * @param primes List of primes e.g. from {@link primeRange}.
+ * @param maxHeight Largest Tenney height i.e. natural logarithm of the product of the numerator and the denominator.
+ * @param start Smallest ratio to include.
+ * @param end Largest ratio to include.
+ * @returns Array of fractions in ascending order of Tenney height and then size.
+ * @throws An error if the primes are not integers greater than 1.
+ */
+export function smoothRatios(
+  primes: number[],
+  maxHeight: number,
+  start: FractionValue = 1,
+  end: FractionValue = 2,
+) {
+  return [...iterSmoothRatios(primes, maxHeight, start, end)];
+}
@@ -0,0 +1,263 @@
+import {Fraction, FractionValue} from './fraction.js';
+import {
+  Monzo,
+  monzoToFraction,
+  primeLimit,
+  toMonzo,
+  toMonzoAndResidual,
+} from './monzo.js';
+import {monzoToCents} from './core.js';
+import {hnf} from './hnf.js';
+import {inv, matmul} from './basis.js';
+import {PRIMES} from './primes.js';
+
+/**
+ * Just intonation subgroup spanned by a basis of rational numbers such as 2.3.7 or 2.5/3.7/3.
+ *
+ * Subgroup monzos are arrays of exponents of the basis elements in the same way that regular monzos are arrays of exponents of the primes.
+ */
+export class Subgroup {
+  /** Rational basis elements of the subgroup. */
+  basis: Fraction[];
+  /** Basis elements as prime monzos padded to `numberOfComponents`. */
+  basisMonzos: Monzo[];
+  /** Number of primes needed to represent the basis elements. */
+  numberOfComponents: number;
+
+  private hermite: Monzo[];
+  private pivots: number[];
+  private pivotInverse: number[][];
+
+  /**
+   * Construct a new subgroup.
+   * ```ts
+   * new Subgroup('2.3.7');
+   * new Subgroup('2.5/3.7/3');
+   * new Subgroup([2, 9, '7/5']);
+   * ```
+   * @param basis Basis in dotted notation or an array of rational basis elements.
+   * @throws An error if the basis elements are invalid or not linearly independent.
+   */
+  constructor(basis: string | FractionValue[]) {
+    if (typeof basis === 'string') {
+      basis = basis.trim().split('.');
+    }
+    if (!basis.length) {
+      throw new Error('Subgroup basis must not be empty');
+    }
+    this.basis = basis.map(element => {
+      let result: Fraction;
+      try {
+        result = new Fraction(element);
+      } catch {
+        throw new Error(`Invalid subgroup basis element '${element}'`);
+      }
+      if (result.s !== 1 || result.isUnity()) {
+        throw new Error(`Invalid subgroup basis element '${element}'`);
+      }
+      return result;
+    });
+    this.numberOfComponents = Math.max(
+      ...this.basis.map(element => primeLimit(element, true)),
+    );
+    this.basisMonzos = this.basis.map(element => {
+      const monzo = toMonzo(element);
+      while (monzo.length < this.numberOfComponents) {
+        monzo.push(0);
+      }
+      return monzo;
+    });
+
+    this.hermite = hnf(this.basisMonzos);
+    this.pivots = [];
+    for (const row of this.hermite) {
+      const pivot = row.findIndex(Boolean);
+      if (pivot < 0) {
+        throw new Error('Subgroup basis is not linearly independent');
+      }
+      this.pivots.push(pivot);
+    }
+    this.pivotInverse = inv(
+      this.basisMonzos.map(monzo => this.pivots.map(pivot => monzo[pivot])),
+    );
+  }
+
+  /**
+   * Construct the subgroup of all primes up to the given limit.
+   * @param limit Largest prime to include.
+   * @returns Prime subgroup such as 2.3.5.7 for the 7-limit.
+   */
+  static fromPrimeLimit(limit: number) {
+    const basis = PRIMES.filter(p => p <= limit);
+    if (!basis.length) {
+      throw new Error(`Invalid prime limit ${limit}`);
+    }
+    return new Subgroup(basis);
+  }
+
+  /**
+   * Construct the smallest prime limit subgroup containing the given intervals.
+   * ```ts
+   * Subgroup.fromIntervals(['5/4', '3/2']).toString()  // "2.3.5"
+   * ```
+   * @param intervals Rational numbers or prime monzos.
+   * @returns Prime subgroup of at least the 2-limit.
+   */
+  static fromIntervals(intervals: (FractionValue | Monzo)[]) {
+    let limit = 2;
+    for (const interval of intervals) {
+      if (Array.isArray(interval)) {
+        limit = Math.max(limit, PRIMES[interval.length - 1] ?? 2);
+      } else {
+        limit = Math.max(limit, primeLimit(interval));
+      }
+    }
+    return Subgroup.fromPrimeLimit(limit);
+  }
+
+  /**
+   * Convert the subgroup to dotted notation.
+   * @returns The basis elements separated by periods e.g. "2.5/3.7/3".
+   */
+  toString() {
+    return this.basis.map(element => element.toFraction()).join('.');
+  }
+
+  /**
+   * Check if the basis consists of prime numbers only.
+   * @returns `true` if every basis element is a prime.
+   */
+  isPrimeBasis() {
+    return this.basisMonzos.every(
+      monzo => monzo.filter(Boolean).length === 1 && monzo.includes(1),
+    );
+  }
+
+  /**
+   * Express a prime monzo in subgroup coordinates with a remainder.
+   *
+   * The remainder is reduced against the Hermite normal form of the basis so it vanishes exactly when the monzo belongs to the subgroup.
+   * For subgroups of primes the remainder consists of the primes not in the subgroup.
+   * @param monzo Prime monzo to convert.
+   * @returns The subgroup monzo and the remainder as a prime monzo.
+   */
+  fromPrimeMonzoAndRemainder(monzo: Monzo): [Monzo, Monzo] {
+    const remainder = [...monzo];
+    while (remainder.length < this.numberOfComponents) {
+      remainder.push(0);
+    }
+    for (let i = 0; i < this.hermite.length; ++i) {
+      const row = this.hermite[i];
+      const multiple = Math.floor(
+        remainder[this.pivots[i]] / row[this.pivots[i]],
+      );
+      if (multiple) {
+        for (let j = 0; j < row.length; ++j) {
+          remainder[j] -= multiple * row[j];
+        }
+      }
+    }
+    const pivotComponents = this.pivots.map(
+      pivot => (monzo[pivot] ?? 0) - remainder[pivot],
+    );
+    // Normalize negative zeros for the benefit of equality checks.
+    const result = matmul(pivotComponents, this.pivotInverse).map(
+      x => Math.round(x) || 0,
+    );
+    return [result, remainder];
+  }
+
+  /**
+   * Express a prime monzo in subgroup coordinates.
+   * @param monzo Prime monzo to convert.
+   * @returns The subgroup monzo.
+   * @throws An error if the monzo doesn't belong to the subgroup.
+   */
+  fromPrimeMonzo(monzo: Monzo): Monzo {
+    const [result, remainder] = this.fromPrimeMonzoAndRemainder(monzo);
+    if (remainder.some(Boolean)) {
+      throw new Error(
+        `Monzo [${monzo.join(', ')}> is outside the subgroup ${this}`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Convert a subgroup monzo to a prime monzo.
+   * @param subgroupMonzo Exponents of the basis elements.
+   * @returns Exponents of the primes padded to `numberOfComponents`.
+   */
+  toPrimeMonzo(subgroupMonzo: Monzo): Monzo {
+    if (subgroupMonzo.length > this.basis.length) {
+      throw new Error('Subgroup monzo has too many components');
+    }
+    const result: Monzo = Array(this.numberOfComponents).fill(0);
+    for (let i = 0; i < subgroupMonzo.length; ++i) {
+      for (let j = 0; j < this.numberOfComponents; ++j) {
+        result[j] += subgroupMonzo[i] * this.basisMonzos[i][j];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Extract the exponents of the basis elements of a rational number.
+   * @param value Rational number to convert.
+   * @returns The subgroup monzo and a multiplicative residual that cannot be represented in the subgroup.
+   */
+  toMonzoAndResidual(value: FractionValue): [Monzo, Fraction] {
+    const [monzo, residual] = toMonzoAndResidual(
+      value,
+      this.numberOfComponents,
+    );
+    if (!residual.n) {
+      throw new Error('Cannot convert zero to a subgroup monzo');
+    }
+    const [result, remainder] = this.fromPrimeMonzoAndRemainder(monzo);
+    return [result, residual.mul(monzoToFraction(remainder))];
+  }
+
+  /**
+   * Extract the exponents of the basis elements of a rational number.
+   * @param value Rational number to convert.
+   * @returns The subgroup monzo representing `value`.
+   * @throws An error if the value doesn't belong to the subgroup.
+   */
+  toMonzo(value: FractionValue): Monzo {
+    const [result, residual] = this.toMonzoAndResidual(value);
+    if (!residual.isUnity()) {
+      throw new Error(
+        `${new Fraction(value).toFraction()} is outside the subgroup ${this}`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Convert a subgroup monzo to the fraction it represents.
+   * @param subgroupMonzo Exponents of the basis elements.
+   * @returns Fractional representation of the monzo.
+   */
+  toFraction(subgroupMonzo: Monzo) {
+    return monzoToFraction(this.toPrimeMonzo(subgroupMonzo));
+  }
+
+  /**
+   * Measure the size of a subgroup monzo in cents.
+   * @param subgroupMonzo Exponents of the basis elements.
+   * @returns The size of the represented number in cents (1200ths of an octave).
+   */
+  toCents(subgroupMonzo: Monzo) {
+    return monzoToCents(this.toPrimeMonzo(subgroupMonzo));
+  }
+
+  /**
+   * Check if a rational number belongs to the subgroup.
+   * @param value Rational number to check.
+   * @returns `true` if the value can be represented in the subgroup.
+   */
+  contains(value: FractionValue) {
+    return this.toMonzoAndResidual(value)[1].isUnity();
+  }
+}
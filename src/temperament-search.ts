@@ -0,0 +1,230 @@
+import {Fraction, FractionValue} from './fraction.js';
+import {Monzo} from './monzo.js';
+import {PRIMES} from './primes.js';
+import {valueToCents} from './conversion.js';
+import {approximatePrimeLimit} from './approximation.js';
+import {iterKCombinations} from './combinations.js';
+import {Subgroup} from './subgroup.js';
+import {Temperament} from './temperament.js';
+import {patentVal} from './val.js';
+import {teTuning} from './optimal-tuning.js';
+import {wedgieComplexity} from './wedgie.js';
+
+/**
+ * Badness metric used to rank temperaments.
+ *
+ * - `'simple'`: Complexity times error.
+ * - `'dirichlet'`: Logflat badness i.e. error times complexity raised to the power of dimension / nullity.
+ * - `'cangwu'`: Complexity times the root-sum-square of the error and the complexity scaled by the `ek` parameter.
+ */
+export type BadnessMetric = 'simple' | 'dirichlet' | 'cangwu';
+
+/**
+ * Options for {@link findTemperamentsFromVals} and {@link findTemperamentsFromCommas}.
+ */
+export type TemperamentSearchOptions = {
+  /** Rank of the temperaments to find. Defaults to 2. */
+  rank?: number;
+  /** Badness metric used for ranking. Defaults to `'dirichlet'`. */
+  metric?: BadnessMetric;
+  /** Error in cents considered equivalent to a unit of complexity in the `'cangwu'` metric. Defaults to 1. */
+  ek?: number;
+  /** Maximum number of temperaments to return. Defaults to 20. */
+  maxResults?: number;
+};
+
+/**
+ * Temperament found by a search together with its quality measures.
+ */
+export type TemperamentSearchResult = {
+  /** The temperament found. */
+  temperament: Temperament;
+  /** Tenney-weighted wedgie complexity. */
+  complexity: number;
+  /** Root-mean-square of the Tenney-weighted errors of the basis elements in the TE tuning in cents. */
+  error: number;
+  /** Value of the badness metric. Smaller is better. */
+  badness: number;
+};
+
+/**
+ * Measure the complexity, error and badness of a temperament.
+ * ```ts
+ * temperamentBadness(Temperament.fromCommas(['81/80'])).error  // 1.582
+ * ```
+ * @param temperament Temperament to measure.
+ * @param metric Badness metric.
+ * @param ek Error in cents considered equivalent to a unit of complexity in the `'cangwu'` metric.
+ * @returns The temperament together with its complexity, error and badness.
+ * @throws An error if the temperament is just intonation i.e. doesn't temper out any commas.
+ */
+export function temperamentBadness(
+  temperament: Temperament,
+  metric: BadnessMetric = 'dirichlet',
+  ek = 1,
+): TemperamentSearchResult {
+  if (!temperament.nullity) {
+    throw new Error('Temperament must temper out at least one comma');
+  }
+  const complexity = wedgieComplexity(
+    temperament.wedgie(),
+    temperament.subgroup,
+  );
+  const weights = temperament.subgroup.basis.map(
+    element => 1200 / valueToCents(element.valueOf()),
+  );
+  const {errors} = teTuning(temperament);
+  let total = 0;
+  for (let i = 0; i < errors.length; ++i) {
+    const weighted = errors[i] * weights[i];
+    total += weighted * weighted;
+  }
+  const error = Math.sqrt(total / errors.length);
+  let badness: number;
+  if (metric === 'simple') {
+    badness = complexity * error;
+  } else if (metric === 'dirichlet') {
+    badness =
+      error * complexity ** (temperament.dimension / temperament.nullity);
+  } else if (metric === 'cangwu') {
+    badness = complexity * Math.hypot(error, ek * complexity);
+  } else {
+    throw new Error(`Unrecognized badness metric '${metric}'`);
+  }
+  return {temperament, complexity, error, badness};
+}
+
+// Collects unique temperaments of the requested rank and keeps the least bad ones.
+function rankTemperaments(
+  temperaments: Iterable<Temperament>,
+  options: TemperamentSearchOptions,
+) {
+  const metric = options.metric ?? 'dirichlet';
+  const ek = options.ek ?? 1;
+  const maxResults = options.maxResults ?? 20;
+  const seen = new Set<string>();
+  const results: TemperamentSearchResult[] = [];
+  for (const temperament of temperaments) {
+    // The mapping is in canonical form so equal temperaments share keys.
+    const key = temperament.mapping.map(row => row.join(',')).join(';');
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    results.push(temperamentBadness(temperament, metric, ek));
+  }
+  results.sort((a, b) => a.badness - b.badness);
+  return results.slice(0, maxResults);
+}
+
+function searchRank(subgroup: Subgroup, options: TemperamentSearchOptions) {
+  const rank = options.rank ?? 2;
+  if (rank < 1 || rank >= subgroup.basis.length) {
+    throw new Error(
+      `Rank must be an integer between 1 and ${subgroup.basis.length - 1}`,
+    );
+  }
+  return rank;
+}
+
+/**
+ * Find temperaments by joining the patent vals of equal divisions of the equave.
+ * ```ts
+ * // Top rank-2 temperaments of the 5-limit supported by edos up to 53
+ * findTemperamentsFromVals('2.3.5', 53);
+ * ```
+ * @param subgroup Subgroup of the temperaments. The first basis element is the equave.
+ * @param maxDivisions Largest number of equal divisions of the equave to consider.
+ * @param options Rank, badness metric and maximum number of results.
+ * @returns Unique temperaments sorted by increasing badness.
+ * @throws An error if the rank is not smaller than the dimension of the subgroup.
+ */
+export function findTemperamentsFromVals(
+  subgroup: Subgroup | string,
+  maxDivisions: number,
+  options: TemperamentSearchOptions = {},
+): TemperamentSearchResult[] {
+  if (typeof subgroup === 'string') {
+    subgroup = new Subgroup(subgroup);
+  }
+  const rank = searchRank(subgroup, options);
+  const vals: Monzo[] = [];
+  for (let divisions = 1; divisions <= maxDivisions; ++divisions) {
+    vals.push(patentVal(divisions, subgroup));
+  }
+  const sg = subgroup;
+  function* temperaments() {
+    for (const combination of iterKCombinations(vals, rank)) {
+      const temperament = new Temperament(combination, sg);
+      if (temperament.rank === rank) {
+        yield temperament;
+      }
+    }
+  }
+  return rankTemperaments(temperaments(), options);
+}
+
+/**
+ * List small commas of a prime limit suitable for {@link findTemperamentsFromCommas}.
+ * @param limit Prime limit of the commas.
+ * @param maxExponent Maximum absolute exponent of each odd prime.
+ * @param maxCents Maximum size of the commas in cents.
+ * @param maxCount Maximum number of commas to return.
+ * @returns Commas larger than unison sorted by increasing size.
+ */
+export function commaCandidates(
+  limit: number,
+  maxExponent: number,
+  maxCents = 50,
+  maxCount = 20,
+): Fraction[] {
+  const limitIndex = PRIMES.indexOf(limit);
+  if (limitIndex < 0) {
+    throw new Error(`${limit} is not a prime`);
+  }
+  // Each comma is found together with its inverse and the unison.
+  return approximatePrimeLimit(
+    0,
+    limitIndex,
+    maxExponent,
+    maxCents,
+    2 * maxCount + 1,
+  )
+    .filter(comma => comma.compare(1) > 0)
+    .slice(0, maxCount);
+}
+
+/**
+ * Find temperaments by tempering out combinations of commas.
+ * ```ts
+ * findTemperamentsFromCommas(commaCandidates(5, 4));
+ * ```
+ * @param commas Candidate commas as rational numbers or subgroup monzos.
+ * @param subgroup Subgroup of the temperaments. Defaults to the prime limit of the commas.
+ * @param options Rank, badness metric and maximum number of results.
+ * @returns Unique temperaments sorted by increasing badness.
+ * @throws An error if the rank is not smaller than the dimension of the subgroup or if a comma is outside the subgroup.
+ */
+export function findTemperamentsFromCommas(
+  commas: (FractionValue | Monzo)[],
+  subgroup?: Subgroup | string,
+  options: TemperamentSearchOptions = {},
+): TemperamentSearchResult[] {
+  if (subgroup === undefined) {
+    subgroup = Subgroup.fromIntervals(commas);
+  } else if (typeof subgroup === 'string') {
+    subgroup = new Subgroup(subgroup);
+  }
+  const rank = searchRank(subgroup, options);
+  const nullity = subgroup.basis.length - rank;
+  const sg = subgroup;
+  function* temperaments() {
+    for (const combination of iterKCombinations(commas, nullity)) {
+      const temperament = Temperament.fromCommas(combination, sg);
+      if (temperament.rank === rank) {
+        yield temperament;
+      }
+    }
+  }
+  return rankTemperaments(temperaments(), options);
+}
@@ -0,0 +1,234 @@
+import {FractionValue} from './fraction.js';
+import {Monzo, monzosEqual} from './monzo.js';
+import {PRIMES} from './primes.js';
+import {Subgroup} from './subgroup.js';
+import {parseVal} from './val.js';
+import {Multivector, wedgie} from './wedgie.js';
+import {
+  canonical,
+  eye,
+  gram,
+  lenstraLenstraLovasz,
+  matmul,
+  respell,
+} from './basis.js';
+import {
+  cokernel,
+  hnf,
+  kernel,
+  preimage,
+  pruneZeroRows,
+  transpose,
+} from './hnf.js';
+
+function toSubgroup(subgroup: Subgroup | string) {
+  return typeof subgroup === 'string' ? new Subgroup(subgroup) : subgroup;
+}
+
+/**
+ * Regular temperament defined by a mapping from the basis elements of a just intonation subgroup to generator steps.
+ */
+export class Temperament {
+  /** Just intonation subgroup of the temperament. */
+  subgroup: Subgroup;
+  /** Mapping matrix in canonical form. Each row corresponds to a generator and each column to a basis element of the subgroup. */
+  mapping: number[][];
+
+  /**
+   * Construct a new temperament from a mapping matrix.
+   * ```ts
+   * // Meantone
+   * new Temperament([[1, 0, -4], [0, 1, 4]], '2.3.5');
+   * ```
+   * @param mapping Mapping matrix (list of vals) in any form. Converted to canonical form.
+   * @param subgroup Subgroup of the temperament. Defaults to the prime limit matching the width of the mapping.
+   * @throws An error if the mapping is too wide for the subgroup or has rank zero.
+   */
+  constructor(mapping: number[][], subgroup?: Subgroup | string) {
+    const width = Math.max(...mapping.map(row => row.length));
+    if (subgroup === undefined) {
+      if (width > PRIMES.length) {
+        throw new Error('Mapping too wide');
+      }
+      subgroup = Subgroup.fromPrimeLimit(PRIMES[width - 1]);
+    }
+    this.subgroup = toSubgroup(subgroup);
+    const dimension = this.subgroup.basis.length;
+    if (width > dimension) {
+      throw new Error(
+        `Mapping has ${width} columns but the subgroup ${this.subgroup} has only ${dimension} basis elements`,
+      );
+    }
+    const padded = mapping.map(row => {
+      row = [...row];
+      while (row.length < dimension) {
+        row.push(0);
+      }
+      return row;
+    });
+    // Remove linearly dependent vals before canonicalizing.
+    const independent = hnf(padded);
+    pruneZeroRows(independent);
+    if (!independent.length) {
+      throw new Error('Temperament must have rank at least one');
+    }
+    this.mapping = canonical(independent);
+  }
+
+  /**
+   * Construct a temperament by joining equal temperaments.
+   * ```ts
+   * // 7-limit septimal meantone
+   * Temperament.fromVals('12p & 19p', '2.3.5.7');
+   * ```
+   * @param vals Vals as arrays of integers or as a string of vals in wart notation separated by ampersands.
+   * @param subgroup Subgroup of the temperament. Required when `vals` is a string.
+   * @returns The temperament supported by all of the vals.
+   */
+  static fromVals(vals: string | Monzo[], subgroup?: Subgroup | string) {
+    if (typeof vals === 'string') {
+      if (subgroup === undefined) {
+        throw new Error('Subgroup is required to parse vals');
+      }
+      subgroup = toSubgroup(subgroup);
+      const sg = subgroup;
+      return new Temperament(
+        vals.split('&').map(token => parseVal(token, sg)),
+        subgroup,
+      );
+    }
+    return new Temperament(vals, subgroup);
+  }
+
+  /**
+   * Construct a temperament that tempers out the given commas.
+   * ```ts
+   * Temperament.fromCommas(['81/80', '126/125']);  // Septimal meantone
+   * ```
+   * @param commas Commas as rational numbers or subgroup monzos.
+   * @param subgroup Subgroup of the temperament. Defaults to the prime limit of the commas.
+   * @returns The temperament that tempers out exactly the commas and their combinations.
+   * @throws An error if the commas don't belong to the subgroup or if they temper out the whole subgroup.
+   */
+  static fromCommas(
+    commas: (FractionValue | Monzo)[],
+    subgroup?: Subgroup | string,
+  ) {
+    if (subgroup === undefined) {
+      subgroup = Subgroup.fromIntervals(commas);
+    }
+    subgroup = toSubgroup(subgroup);
+    const dimension = subgroup.basis.length;
+    const sg = subgroup;
+    const monzos = commas.map(comma => {
+      const monzo = Array.isArray(comma) ? [...comma] : sg.toMonzo(comma);
+      while (monzo.length < dimension) {
+        monzo.push(0);
+      }
+      return monzo;
+    });
+    pruneZeroRows(monzos);
+    if (!monzos.length) {
+      return new Temperament(eye(dimension), subgroup);
+    }
+    const mapping = cokernel(transpose(monzos));
+    if (!mapping.length) {
+      throw new Error('The commas temper out the whole subgroup');
+    }
+    return new Temperament(mapping, subgroup);
+  }
+
+  /**
+   * Number of generators of the temperament.
+   */
+  get rank() {
+    return this.mapping.length;
+  }
+
+  /**
+   * Number of basis elements in the subgroup of the temperament.
+   */
+  get dimension() {
+    return this.subgroup.basis.length;
+  }
+
+  /**
+   * Number of independent commas tempered out.
+   */
+  get nullity() {
+    return this.dimension - this.rank;
+  }
+
+  /**
+   * Obtain a basis for the commas tempered out by the temperament.
+   * @returns LLL-reduced subgroup monzos of the commas oriented to be ascending.
+   */
+  commaBasis(): Monzo[] {
+    if (!this.nullity) {
+      return [];
+    }
+    const commas = transpose(kernel(this.mapping));
+    return lenstraLenstraLovasz(commas).basis.map(comma =>
+      this.subgroup.toCents(comma) < 0 ? comma.map(c => -c) : comma,
+    );
+  }
+
+  /**
+   * Obtain preimages of the generators of the temperament respelled to be simple using the comma basis.
+   * @returns Subgroup monzos that map to a single step of each generator and zero steps of the others.
+   */
+  generators(): Monzo[] {
+    const generators = transpose(preimage(this.mapping));
+    const commas = this.commaBasis();
+    if (!commas.length) {
+      return generators;
+    }
+    const duals = gram(commas).dual;
+    return generators.map(generator => respell(generator, commas, duals));
+  }
+
+  /**
+   * Map an interval to generator steps.
+   * @param interval Rational number or a subgroup monzo.
+   * @returns Number of steps of each generator.
+   * @throws An error if the interval doesn't belong to the subgroup.
+   */
+  steps(interval: FractionValue | Monzo): number[] {
+    const monzo = Array.isArray(interval)
+      ? interval
+      : this.subgroup.toMonzo(interval);
+    return matmul(this.mapping, monzo);
+  }
+
+  /**
+   * Check if the temperament tempers out an interval.
+   * @param interval Rational number or a subgroup monzo.
+   * @returns `true` if the interval is mapped to zero steps of every generator.
+   */
+  tempersOut(interval: FractionValue | Monzo) {
+    return this.steps(interval).every(step => !step);
+  }
+
+  /**
+   * Calculate the canonical wedgie of the temperament.
+   * @returns Normalized multival identifying the temperament within its subgroup.
+   */
+  wedgie(): Multivector {
+    return wedgie(this.mapping);
+  }
+
+  /**
+   * Check if two temperaments are the same.
+   * @param other Another temperament.
+   * @returns `true` if the temperaments share subgroups and canonical mappings.
+   */
+  equals(other: Temperament) {
+    if (this.subgroup.toString() !== other.subgroup.toString()) {
+      return false;
+    }
+    if (this.rank !== other.rank) {
+      return false;
+    }
+    return this.mapping.every((row, i) => monzosEqual(row, other.mapping[i]));
+  }
+}
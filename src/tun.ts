@@ -0,0 +1,339 @@
+import {centOffsetToFrequency, valueToCents} from './conversion.js';
+
+/**
+ * Default base frequency of AnaMark .tun files i.e. the frequency of MIDI note 0 in 12-tone equal temperament with A4 = 440 Hz.
+ */
+export const TUN_BASE_FREQUENCY = 8.175798915643707;
+
+/**
+ * Contents of an AnaMark .tun file.
+ */
+export type TunTuning = {
+  /** Name of the tuning. May be empty. */
+  name: string;
+  /** Frequency in Hertz that the cents offsets are measured against. */
+  baseFrequency: number;
+  /** Pitches of all 128 MIDI notes as cents offsets from the base frequency. */
+  cents: number[];
+};
+
+type FunctionalInstruction = {
+  frequency?: number;
+  reference: number;
+  relative: boolean;
+  cents: number;
+  loop?: number;
+};
+
+const MIDI_NOTE_COUNT = 128;
+const FORMAT = 'AnaMark-TUN';
+const FORMAT_SPECS = 'http://www.mark-henning.de/eternity/tuningspecs.html';
+
+const NUMBER = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[+-]?\\d+)?';
+const NUMBER_PATTERN = new RegExp(`^${NUMBER}$`, 'i');
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const FUNCTIONAL_PATTERN = new RegExp(
+  `^(?:!\\s*(${NUMBER})|#\\s*([=>])\\s*([+-]?\\d+)(?:\\s*%\\s*(${NUMBER}))?)(?:\\s*~\\s*(\\d+))?$`,
+  'i',
+);
+
+function parseNumber(token: string, what: string) {
+  if (!NUMBER_PATTERN.test(token)) {
+    throw new Error(`Invalid ${what} '${token}'`);
+  }
+  return parseFloat(token);
+}
+
+function parseNoteKey(key: string) {
+  const match = key.match(/^note\s*(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const note = parseInt(match[1], 10);
+  if (note >= MIDI_NOTE_COUNT) {
+    throw new Error(`Out of MIDI range: note ${note}`);
+  }
+  return note;
+}
+
+function parseFunctionalInstruction(value: string): FunctionalInstruction {
+  const match = value.match(FUNCTIONAL_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid functional tuning '${value}'`);
+  }
+  const result: FunctionalInstruction = {
+    reference: 0,
+    relative: false,
+    cents: 0,
+  };
+  if (match[1] === undefined) {
+    result.relative = match[2] === '>';
+    result.reference = parseInt(match[3], 10);
+    if (match[4] !== undefined) {
+      result.cents = parseFloat(match[4]);
+    }
+  } else {
+    result.frequency = parseFloat(match[1]);
+    if (!(result.frequency > 0)) {
+      throw new Error(`Invalid frequency '${match[1]}'`);
+    }
+  }
+  if (match[5] !== undefined) {
+    result.loop = parseInt(match[5], 10);
+  }
+  return result;
+}
+
+/**
+ * Parse the contents of an AnaMark .tun file.
+ *
+ * Supports the `[Tuning]` and `[Exact Tuning]` sections of version 1 and the `[Scale Begin]`, `[Info]` and `[Functional Tuning]` sections of version 2.
+ * Later sections take precedence note by note: `[Functional Tuning]` overrides `[Exact Tuning]`, which overrides `[Tuning]`.
+ * Notes missing from all sections are tuned to 12-tone equal temperament.
+ * Only the first scale of a multi-scale file is read.
+ *
+ * Functional tuning instructions are of the form `!frequency` for absolute frequencies in Hertz,
+ * `#=note % cents` for offsets from an absolute note and `#>steps % cents` for offsets from a note relative to the current one.
+ * A trailing `~note` repeats the instruction for subsequent notes up to the given note unless they have their own instructions.
+ *
+ * In strict mode unrecognized lines, unknown formats and invalid values throw. In lenient mode they are ignored.
+ * Unknown sections and keys are always ignored.
+ * @param text Contents of the .tun file.
+ * @param strict Throw on any deviation from the specification.
+ * @returns The name and the tuning of all 128 MIDI notes.
+ * @throws An error with the offending line number if the file cannot be parsed.
+ */
+export function parseTun(text: string, strict = true): TunTuning {
+  let name = '';
+  const tuning = new Map<number, number>();
+  const exactTuning = new Map<number, number>();
+  const functionalTuning = new Map<number, FunctionalInstruction>();
+  let exactBaseFrequency: number | undefined;
+
+  const lines = text.split(/\r?\n/);
+  let section = '';
+  for (let i = 0; i < lines.length; ++i) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith(';')) {
+      continue;
+    }
+    const sectionMatch = line.match(/^\[(.*)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim().toLowerCase().replace(/\s+/g, ' ');
+      if (section === 'scale end') {
+        break;
+      }
+      continue;
+    }
+    try {
+      const equals = line.indexOf('=');
+      if (equals < 0) {
+        throw new Error(`Invalid line '${line}'`);
+      }
+      const key = line
+        .slice(0, equals)
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, ' ');
+      const value = line
+        .slice(equals + 1)
+        .trim()
+        .replace(/^"(.*)"$/, '$1');
+      if (section === 'scale begin') {
+        if (key === 'format' && value !== FORMAT) {
+          throw new Error(`Unknown format '${value}'`);
+        }
+      } else if (section === 'info') {
+        if (key === 'name') {
+          name = value;
+        }
+      } else if (section === 'tuning') {
+        const note = parseNoteKey(key);
+        if (note !== undefined) {
+          if (!INTEGER_PATTERN.test(value)) {
+            throw new Error(`Invalid cents '${value}'`);
+          }
+          tuning.set(note, parseInt(value, 10));
+        }
+      } else if (section === 'exact tuning') {
+        if (key === 'basefreq') {
+          exactBaseFrequency = parseNumber(value, 'base frequency');
+          if (!(exactBaseFrequency > 0)) {
+            throw new Error(`Invalid base frequency '${value}'`);
+          }
+        } else {
+          const note = parseNoteKey(key);
+          if (note !== undefined) {
+            exactTuning.set(note, parseNumber(value, 'cents'));
+          }
+        }
+      } else if (section === 'functional tuning') {
+        const note = parseNoteKey(key);
+        if (note !== undefined) {
+          functionalTuning.set(note, parseFunctionalInstruction(value));
+        }
+      }
+    } catch (e) {
+      if (strict) {
+        throw new Error(`Line ${i + 1}: ${(e as Error).message}`);
+      }
+    }
+  }
+
+  const baseFrequency = exactBaseFrequency ?? TUN_BASE_FREQUENCY;
+  const exactOffset = valueToCents(baseFrequency / TUN_BASE_FREQUENCY);
+
+  // Cents relative to the default base frequency.
+  const absolute: number[] = [];
+  for (let note = 0; note < MIDI_NOTE_COUNT; ++note) {
+    const exact = exactTuning.get(note);
+    if (exact !== undefined) {
+      absolute.push(exact + exactOffset);
+    } else {
+      absolute.push(tuning.get(note) ?? 100 * note);
+    }
+  }
+
+  for (const [note, instruction] of [...functionalTuning].sort(
+    (a, b) => a[0] - b[0],
+  )) {
+    const last = Math.min(instruction.loop ?? note, MIDI_NOTE_COUNT - 1);
+    for (let other = note + 1; other <= last; ++other) {
+      if (!functionalTuning.has(other)) {
+        functionalTuning.set(other, instruction);
+      }
+    }
+  }
+
+  const resolved: (number | undefined)[] = [];
+  const visiting = new Set<number>();
+  function resolve(note: number): number {
+    if (resolved[note] !== undefined) {
+      return resolved[note]!;
+    }
+    const instruction = functionalTuning.get(note);
+    if (instruction === undefined) {
+      return absolute[note];
+    }
+    if (instruction.frequency !== undefined) {
+      resolved[note] = valueToCents(instruction.frequency / TUN_BASE_FREQUENCY);
+      return resolved[note]!;
+    }
+    const reference = instruction.relative
+      ? note + instruction.reference
+      : instruction.reference;
+    if (reference < 0 || reference >= MIDI_NOTE_COUNT) {
+      throw new Error(`Note ${note} references note ${reference} out of range`);
+    }
+    if (visiting.has(note)) {
+      throw new Error(`Circular reference at note ${note}`);
+    }
+    visiting.add(note);
+    resolved[note] = resolve(reference) + instruction.cents;
+    visiting.delete(note);
+    return resolved[note]!;
+  }
+
+  const cents: number[] = [];
+  for (let note = 0; note < MIDI_NOTE_COUNT; ++note) {
+    cents.push(resolve(note) - exactOffset);
+  }
+  return {name, baseFrequency, cents};
+}
+
+function formatCents(cents: number) {
+  return cents.toFixed(10);
+}
+
+/**
+ * Serialize a tuning into the AnaMark .tun file format.
+ *
+ * Version 1 files have `[Tuning]` and `[Exact Tuning]` sections.
+ * Version 2 files additionally have a `[Scale Begin]` header and a `[Functional Tuning]` section where each note is tuned relative to the previous one.
+ * @param tuning Tuning to serialize.
+ * @param version Version of the file format to produce.
+ * @returns Contents of a .tun file.
+ */
+export function serializeTun(tuning: TunTuning, version: 1 | 2 = 2) {
+  if (tuning.cents.length !== MIDI_NOTE_COUNT) {
+    throw new Error(`Expected ${MIDI_NOTE_COUNT} cents offsets`);
+  }
+  if (tuning.name.includes('\n') || tuning.name.includes('"')) {
+    throw new Error('Name must fit on a single line without double quotes');
+  }
+  const exactOffset = valueToCents(tuning.baseFrequency / TUN_BASE_FREQUENCY);
+  const lines: string[] = [];
+  if (version === 2) {
+    lines.push('[Scale Begin]');
+    lines.push(`Format = "${FORMAT}"`);
+    lines.push('FormatVersion = 200');
+    lines.push(`FormatSpecs = "${FORMAT_SPECS}"`);
+    lines.push('');
+  }
+  lines.push('[Info]');
+  lines.push(`Name = "${tuning.name}"`);
+  lines.push('');
+  lines.push('[Tuning]');
+  for (let note = 0; note < MIDI_NOTE_COUNT; ++note) {
+    lines.push(`note ${note}=${Math.round(tuning.cents[note] + exactOffset)}`);
+  }
+  lines.push('');
+  lines.push('[Exact Tuning]');
+  lines.push(`BaseFreq=${tuning.baseFrequency}`);
+  for (let note = 0; note < MIDI_NOTE_COUNT; ++note) {
+    lines.push(`note ${note}=${formatCents(tuning.cents[note])}`);
+  }
+  if (version === 2) {
+    lines.push('');
+    lines.push('[Functional Tuning]');
+    lines.push(
+      `note 0="!${centOffsetToFrequency(
+        tuning.cents[0],
+        tuning.baseFrequency,
+      )}"`,
+    );
+    for (let note = 1; note < MIDI_NOTE_COUNT; ++note) {
+      const step = tuning.cents[note] - tuning.cents[note - 1];
+      lines.push(`note ${note}="#>-1 % ${formatCents(step)}"`);
+    }
+    lines.push('');
+    lines.push('[Scale End]');
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Calculate the frequencies of all MIDI notes in a .tun tuning.
+ * @param tuning Tuning of all 128 MIDI notes.
+ * @returns An array of 128 frequencies in Hertz indexed by MIDI note number.
+ */
+export function tunFrequencyTable(tuning: TunTuning) {
+  return tuning.cents.map(cents =>
+    centOffsetToFrequency(cents, tuning.baseFrequency),
+  );
+}
+
+/**
+ * Construct a .tun tuning from a table of frequencies such as the one produced by `kbmFrequencyTable`.
+ * @param frequencies An array of 128 frequencies in Hertz indexed by MIDI note number.
+ * @param name Name of the tuning.
+ * @param baseFrequency Frequency in Hertz to measure the cents offsets against.
+ * @returns The tuning of all 128 MIDI notes.
+ */
+export function frequencyTableToTun(
+  frequencies: number[],
+  name = '',
+  baseFrequency = TUN_BASE_FREQUENCY,
+): TunTuning {
+  if (frequencies.length !== MIDI_NOTE_COUNT) {
+    throw new Error(`Expected ${MIDI_NOTE_COUNT} frequencies`);
+  }
+  return {
+    name,
+    baseFrequency,
+    cents: frequencies.map(frequency =>
+      valueToCents(frequency / baseFrequency),
+    ),
+  };
+}
@@ -0,0 +1,278 @@
+import {Monzo} from './monzo.js';
+import {PRIME_CENTS} from './primes.js';
+import {valueToCents} from './conversion.js';
+import {Subgroup} from './subgroup.js';
+
+/**
+ * Letters used in wart notation. The n-th letter refers to the n-th prime or subgroup basis element.
+ */
+export const WART_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+function justMapOf(subgroup: number | Subgroup) {
+  if (typeof subgroup === 'number') {
+    if (subgroup < 1 || subgroup > PRIME_CENTS.length) {
+      throw new Error(`Invalid number of components ${subgroup}`);
+    }
+    return PRIME_CENTS.slice(0, subgroup);
+  }
+  return subgroup.basis.map(element => valueToCents(element.valueOf()));
+}
+
+// Sizes of the basis elements measured in equaves.
+function equaveRatios(subgroup: number | Subgroup) {
+  const justMap = justMapOf(subgroup);
+  return justMap.map(cents => cents / justMap[0]);
+}
+
+// The n-th closest integer to x. Zero is the closest i.e. round(x).
+function nthClosest(x: number, n: number) {
+  const closest = Math.round(x);
+  const direction = x >= closest ? 1 : -1;
+  const distance = Math.ceil(n / 2);
+  return closest + (n % 2 ? direction : -direction) * distance;
+}
+
+// Inverse of nthClosest.
+function closenessRank(x: number, k: number) {
+  const closest = Math.round(x);
+  const direction = x >= closest ? 1 : -1;
+  const offset = (k - closest) * direction;
+  return offset > 0 ? 2 * offset - 1 : -2 * offset;
+}
+
+/**
+ * Calculate the patent val of an equal division i.e. the mapping where each basis element is approximated by the closest number of steps.
+ * Non-integer divisions produce generalized patent vals.
+ * ```ts
+ * patentVal(12, 3)  // [12, 19, 28]
+ * ```
+ * @param divisions Number of equal divisions of the equave.
+ * @param subgroup Number of primes to map or a subgroup whose first basis element is the equave.
+ * @returns Number of steps mapped to each prime or basis element.
+ */
+export function patentVal(
+  divisions: number,
+  subgroup: number | Subgroup,
+): Monzo {
+  return equaveRatios(subgroup).map(ratio => Math.round(divisions * ratio));
+}
+
+/**
+ * Calculate a warted val of an equal division.
+ * Each occurrence of a wart letter replaces the mapping of the corresponding basis element by the next best approximation.
+ * ```ts
+ * wartedVal(17, 'c', 3)  // [17, 27, 40]
+ * ```
+ * @param divisions Number of equal divisions of the equave.
+ * @param warts Wart letters such as "c" or "bbd". The letter "a" refers to the first basis element, "b" to the second and so on.
+ * @param subgroup Number of primes to map or a subgroup whose first basis element is the equave.
+ * @returns Number of steps mapped to each prime or basis element.
+ * @throws An error if the warts refer to basis elements outside the subgroup.
+ */
+export function wartedVal(
+  divisions: number,
+  warts: string,
+  subgroup: number | Subgroup,
+): Monzo {
+  const ratios = equaveRatios(subgroup);
+  const counts: number[] = Array(ratios.length).fill(0);
+  for (const letter of warts.toLowerCase()) {
+    const index = WART_LETTERS.indexOf(letter);
+    if (index < 0 || index >= ratios.length) {
+      throw new Error(`Invalid wart '${letter}'`);
+    }
+    counts[index]++;
+  }
+  return ratios.map((ratio, i) => nthClosest(divisions * ratio, counts[i]));
+}
+
+/**
+ * Parse a val in wart notation such as "12", "12p" or "17c".
+ * A lone trailing "p" indicates the patent val.
+ * @param notation Number of equal divisions followed by optional wart letters.
+ * @param subgroup Number of primes to map or a subgroup whose first basis element is the equave.
+ * @returns Number of steps mapped to each prime or basis element.
+ * @throws An error if the notation cannot be parsed.
+ */
+export function parseVal(notation: string, subgroup: number | Subgroup) {
+  notation = notation.trim();
+  const match = notation.match(/^(\d+(?:\.\d*)?)([a-z]*)$/i);
+  if (!match) {
+    throw new Error(`Invalid val '${notation}'`);
+  }
+  const divisions = parseFloat(match[1]);
+  const warts = match[2].toLowerCase() === 'p' ? '' : match[2];
+  try {
+    return wartedVal(divisions, warts, subgroup);
+  } catch {
+    throw new Error(`Invalid val '${notation}'`);
+  }
+}
+
+/**
+ * Express a val in wart notation.
+ * ```ts
+ * valToWarts([17, 27, 40])  // "17c"
+ * ```
+ * @param val Number of steps mapped to each prime or basis element.
+ * @param subgroup Subgroup of the val. Defaults to the prime limit matching the length of the val.
+ * @param divisions Number of equal divisions of the equave. Defaults to the mapping of the equave.
+ * @returns The number of divisions followed by wart letters or "p" if the val is patent.
+ */
+export function valToWarts(
+  val: Monzo,
+  subgroup?: Subgroup,
+  divisions?: number,
+) {
+  const ratios = equaveRatios(subgroup ?? val.length);
+  if (ratios.length !== val.length) {
+    throw new Error('Val length must match the subgroup');
+  }
+  divisions ??= val[0];
+  if (ratios.length > WART_LETTERS.length) {
+    throw new Error('Too many components for wart notation');
+  }
+  let warts = '';
+  for (let i = 0; i < val.length; ++i) {
+    warts += WART_LETTERS[i].repeat(
+      closenessRank(divisions * ratios[i], val[i]),
+    );
+  }
+  return `${divisions}${warts || 'p'}`;
+}
+
+/**
+ * Enumerate the distinct generalized patent vals of equal divisions within a range.
+ * A generalized patent val is the patent val of some real number of divisions.
+ * @param minDivisions Smallest number of divisions to consider.
+ * @param maxDivisions Largest number of divisions to consider.
+ * @param subgroup Number of primes to map or a subgroup whose first basis element is the equave.
+ * @returns Array of vals sorted by increasing number of divisions.
+ */
+export function generalizedPatentVals(
+  minDivisions: number,
+  maxDivisions: number,
+  subgroup: number | Subgroup,
+): Monzo[] {
+  if (minDivisions > maxDivisions) {
+    return [];
+  }
+  const ratios = equaveRatios(subgroup);
+  const breakpoints = [minDivisions, maxDivisions];
+  for (const ratio of ratios) {
+    const first = Math.ceil(minDivisions * ratio - 0.5);
+    const last = Math.floor(maxDivisions * ratio - 0.5);
+    for (let k = first; k <= last; ++k) {
+      breakpoints.push((k + 0.5) / ratio);
+    }
+  }
+  breakpoints.sort((a, b) => a - b);
+  const points = breakpoints.filter((x, i) => !i || x !== breakpoints[i - 1]);
+  const midpoints =
+    points.length > 1
+      ? points.slice(1).map((x, i) => (points[i] + x) / 2)
+      : points;
+  const result: Monzo[] = [];
+  let previous = '';
+  for (const midpoint of midpoints) {
+    const val = patentVal(midpoint, subgroup);
+    const key = val.join(',');
+    if (key !== previous) {
+      result.push(val);
+      previous = key;
+    }
+  }
+  return result;
+}
+
+/**
+ * Enumerate all vals of an equal division where each prime or basis element is mapped within an error bound.
+ * The mapping of the equave is fixed to the number of divisions.
+ * @param divisions Number of equal divisions of the equave.
+ * @param maxError Maximum absolute error of each basis element in cents.
+ * @param subgroup Number of primes to map or a subgroup whose first basis element is the equave.
+ * @returns Array of vals in lexicographic order.
+ */
+export function valsWithinError(
+  divisions: number,
+  maxError: number,
+  subgroup: number | Subgroup,
+): Monzo[] {
+  const justMap = justMapOf(subgroup);
+  const stepSize = justMap[0] / divisions;
+  const candidates = justMap.map((cents, i) => {
+    if (!i) {
+      return [divisions];
+    }
+    const result: number[] = [];
+    const first = Math.ceil((cents - maxError) / stepSize);
+    const last = Math.floor((cents + maxError) / stepSize);
+    for (let k = first; k <= last; ++k) {
+      result.push(k);
+    }
+    return result;
+  });
+  let result: Monzo[] = [[]];
+  for (const options of candidates) {
+    const next: Monzo[] = [];
+    for (const partial of result) {
+      for (const option of options) {
+        next.push([...partial, option]);
+      }
+    }
+    result = next;
+  }
+  return result;
+}
+
+/**
+ * Calculate the errors of the basis elements of an equal temperament with a pure equave.
+ * @param val Number of steps mapped to each prime or basis element.
+ * @param subgroup Subgroup of the val. Defaults to the prime limit matching the length of the val.
+ * @returns Tempered minus just sizes of the basis elements in cents.
+ */
+export function valErrors(val: Monzo, subgroup?: Subgroup) {
+  const justMap = justMapOf(subgroup ?? val.length);
+  const stepSize = justMap[0] / val[0];
+  return justMap.map((cents, i) => val[i] * stepSize - cents);
+}
+
+/**
+ * Calculate the Tenney-Euclidean complexity of a val i.e. the root-mean-square of the Tenney-weighted mapping.
+ * @param val Number of steps mapped to each prime or basis element.
+ * @param subgroup Subgroup of the val. Defaults to the prime limit matching the length of the val.
+ * @returns The TE complexity of the val.
+ */
+export function teComplexity(val: Monzo, subgroup?: Subgroup) {
+  const justMap = justMapOf(subgroup ?? val.length);
+  let total = 0;
+  for (let i = 0; i < val.length; ++i) {
+    const weighted = (val[i] * 1200) / justMap[i];
+    total += weighted * weighted;
+  }
+  return Math.sqrt(total / val.length);
+}
+
+/**
+ * Calculate the Tenney-Euclidean error of a val i.e. the root-mean-square of the Tenney-weighted errors with the optimal step size.
+ * @param val Number of steps mapped to each prime or basis element.
+ * @param subgroup Subgroup of the val. Defaults to the prime limit matching the length of the val.
+ * @returns The TE error of the val in cents per octave.
+ */
+export function teError(val: Monzo, subgroup?: Subgroup) {
+  const justMap = justMapOf(subgroup ?? val.length);
+  const weighted = val.map((steps, i) => (steps * 1200) / justMap[i]);
+  let dot = 0;
+  let squares = 0;
+  for (const w of weighted) {
+    dot += w;
+    squares += w * w;
+  }
+  const stepSize = (1200 * dot) / squares;
+  let total = 0;
+  for (const w of weighted) {
+    const error = stepSize * w - 1200;
+    total += error * error;
+  }
+  return Math.sqrt(total / val.length);
+}
@@ -0,0 +1,283 @@
+import {gcd} from './fraction.js';
+import {PRIME_CENTS} from './primes.js';
+import {valueToCents} from './conversion.js';
+import {kCombinations} from './combinations.js';
+import {canonical} from './basis.js';
+import {hnf, integerDet, pruneZeroRows} from './hnf.js';
+import {Subgroup} from './subgroup.js';
+
+/**
+ * Element of the exterior algebra such as a multival (wedge product of vals) or a multimonzo (wedge product of monzos).
+ */
+export type Multivector = {
+  /** Number of vectors wedged together. */
+  grade: number;
+  /** Dimension of the underlying vector space i.e. the number of primes or subgroup basis elements. */
+  dimension: number;
+  /** Plücker coordinates indexed by the combinations of basis indices in lexicographic order. */
+  components: number[];
+};
+
+function indexCombinations(grade: number, dimension: number) {
+  if (!grade) {
+    return [[]];
+  }
+  return kCombinations([...Array(dimension).keys()], grade);
+}
+
+// Sign of the permutation that sorts the indices.
+function permutationSign(indices: number[]) {
+  let sign = 1;
+  for (let i = 0; i < indices.length; ++i) {
+    for (let j = i + 1; j < indices.length; ++j) {
+      if (indices[i] > indices[j]) {
+        sign = -sign;
+      }
+    }
+  }
+  return sign;
+}
+
+function validate(multivector: Multivector) {
+  const count = indexCombinations(
+    multivector.grade,
+    multivector.dimension,
+  ).length;
+  if (multivector.components.length !== count) {
+    throw new Error(
+      `Expected ${count} components for grade ${multivector.grade} in dimension ${multivector.dimension}`,
+    );
+  }
+}
+
+/**
+ * Calculate the wedge product of vals or monzos.
+ * ```ts
+ * wedge([[12, 19, 28], [19, 30, 44]]).components  // [-1, -4, -4]
+ * ```
+ * @param vectors Vals or monzos of equal dimension. Missing components are interpreted as zeros.
+ * @returns Multivector with the maximal minors of the vectors as components.
+ */
+export function wedge(vectors: number[][]): Multivector {
+  if (!vectors.length) {
+    throw new Error('Cannot wedge an empty list of vectors');
+  }
+  const grade = vectors.length;
+  const dimension = Math.max(...vectors.map(vector => vector.length));
+  const components = indexCombinations(grade, dimension).map(
+    indices =>
+      integerDet(vectors.map(vector => indices.map(i => vector[i] ?? 0))) || 0,
+  );
+  return {grade, dimension, components};
+}
+
+/**
+ * Normalize a multivector to canonical form by removing common factors and making the first non-zero component positive.
+ * @param multivector Multivector to normalize.
+ * @returns The normalized multivector.
+ * @throws An error if the multivector is zero.
+ */
+export function normalizeWedgie(multivector: Multivector): Multivector {
+  validate(multivector);
+  const leading = multivector.components.find(Boolean);
+  if (leading === undefined) {
+    throw new Error('Cannot normalize a zero multivector');
+  }
+  let divisor = 0;
+  for (const component of multivector.components) {
+    divisor = gcd(divisor, Math.abs(component));
+  }
+  if (leading < 0) {
+    divisor = -divisor;
+  }
+  return {
+    grade: multivector.grade,
+    dimension: multivector.dimension,
+    components: multivector.components.map(c => c / divisor || 0),
+  };
+}
+
+/**
+ * Calculate the Hodge dual of a multivector. Converts multimonzos to multivals and vice versa up to sign.
+ * @param multivector Multivector to convert.
+ * @returns Multivector of complementary grade.
+ */
+export function hodgeDual(multivector: Multivector): Multivector {
+  validate(multivector);
+  const {grade, dimension} = multivector;
+  const source = indexCombinations(grade, dimension).map(indices =>
+    indices.join(','),
+  );
+  const components = indexCombinations(dimension - grade, dimension).map(
+    indices => {
+      const complement = [...Array(dimension).keys()].filter(
+        i => !indices.includes(i),
+      );
+      const index = source.indexOf(complement.join(','));
+      return (
+        permutationSign([...complement, ...indices]) *
+          multivector.components[index] || 0
+      );
+    },
+  );
+  return {grade: dimension - grade, dimension, components};
+}
+
+/**
+ * Calculate the canonical wedgie of a temperament supported by the given vals.
+ * ```ts
+ * wedgie([[12, 19, 28], [7, 11, 16]]).components  // [1, 4, 4]
+ * ```
+ * @param vals Vals supporting the temperament.
+ * @returns Normalized multival identifying the temperament.
+ * @throws An error if the vals are linearly dependent.
+ */
+export function wedgie(vals: number[][]): Multivector {
+  const result = wedge(vals);
+  if (!result.components.some(Boolean)) {
+    throw new Error('Vals are linearly dependent');
+  }
+  return normalizeWedgie(result);
+}
+
+/**
+ * Calculate the canonical wedgie of a temperament that tempers out the given commas.
+ * @param commas Monzos of the commas.
+ * @param dimension Number of primes or subgroup basis elements. Defaults to the length of the longest comma.
+ * @returns Normalized multival identifying the temperament.
+ * @throws An error if the commas are linearly dependent.
+ */
+export function commaWedgie(commas: number[][], dimension?: number) {
+  dimension ??= Math.max(...commas.map(comma => comma.length));
+  const padded = commas.map(comma => {
+    comma = [...comma];
+    while (comma.length < dimension!) {
+      comma.push(0);
+    }
+    return comma;
+  });
+  const multimonzo = wedge(padded);
+  if (!multimonzo.components.some(Boolean)) {
+    throw new Error('Commas are linearly dependent');
+  }
+  return normalizeWedgie(hodgeDual(multimonzo));
+}
+
+/**
+ * Recover the mapping matrix of a temperament from its multival.
+ * @param multival Multival of the temperament.
+ * @returns Mapping matrix in canonical form.
+ * @throws An error if the multival doesn't correspond to any temperament i.e. isn't decomposable.
+ */
+export function multivalToMapping(multival: Multivector): number[][] {
+  validate(multival);
+  const {grade, dimension, components} = multival;
+  if (!grade) {
+    throw new Error('Cannot recover a mapping from a scalar');
+  }
+  const keys = indexCombinations(grade, dimension).map(indices =>
+    indices.join(','),
+  );
+  // Contract the multival with every combination of basis monzos to obtain vals in its span.
+  const vals: number[][] = [];
+  for (const contraction of indexCombinations(grade - 1, dimension)) {
+    const val: number[] = [];
+    for (let j = 0; j < dimension; ++j) {
+      if (contraction.includes(j)) {
+        val.push(0);
+        continue;
+      }
+      const indices = [...contraction, j];
+      const sign = permutationSign(indices);
+      indices.sort((a, b) => a - b);
+      val.push(sign * components[keys.indexOf(indices.join(','))] || 0);
+    }
+    vals.push(val);
+  }
+  const independent = hnf(vals);
+  pruneZeroRows(independent);
+  if (independent.length !== grade) {
+    throw new Error('Multival is not decomposable');
+  }
+  const mapping = canonical(independent);
+  const expected = normalizeWedgie(multival).components;
+  const actual = wedgie(mapping).components;
+  if (expected.some((c, i) => c !== actual[i])) {
+    throw new Error('Multival is not decomposable');
+  }
+  return mapping;
+}
+
+function tenneyWeights(dimension: number, subgroup?: Subgroup) {
+  if (subgroup === undefined) {
+    return PRIME_CENTS.slice(0, dimension).map(cents => 1200 / cents);
+  }
+  if (subgroup.basis.length !== dimension) {
+    throw new Error('Subgroup must match the dimension of the multivector');
+  }
+  return subgroup.basis.map(element => 1200 / valueToCents(element.valueOf()));
+}
+
+function weightedComponents(multival: Multivector, weights: number[]) {
+  return indexCombinations(multival.grade, multival.dimension).map(
+    (indices, i) =>
+      indices.reduce(
+        (product, index) => product * weights[index],
+        multival.components[i],
+      ),
+  );
+}
+
+function rms(values: number[]) {
+  let total = 0;
+  for (const value of values) {
+    total += value * value;
+  }
+  return Math.sqrt(total / values.length);
+}
+
+/**
+ * Calculate the Tenney-weighted wedgie complexity of a temperament i.e. the root-mean-square of the weighted components of its multival.
+ * Agrees with the TE complexity of vals for temperaments of rank one.
+ * @param multival Multival of the temperament.
+ * @param subgroup Subgroup of the temperament. Defaults to the prime limit matching the dimension of the multival.
+ * @returns The complexity of the temperament.
+ */
+export function wedgieComplexity(multival: Multivector, subgroup?: Subgroup) {
+  validate(multival);
+  const weights = tenneyWeights(multival.dimension, subgroup);
+  return rms(weightedComponents(multival, weights));
+}
+
+/**
+ * Calculate the Tenney-weighted simple badness of a temperament i.e. the root-mean-square of the components of its weighted multival wedged with the just intonation point.
+ * Small values indicate temperaments that are both simple and accurate.
+ * @param multival Multival of the temperament.
+ * @param subgroup Subgroup of the temperament. Defaults to the prime limit matching the dimension of the multival.
+ * @returns The badness of the temperament.
+ */
+export function wedgieBadness(multival: Multivector, subgroup?: Subgroup) {
+  validate(multival);
+  const weights = tenneyWeights(multival.dimension, subgroup);
+  const weighted = weightedComponents(multival, weights);
+  // Wedge with the weighted just intonation point [1, 1, ..., 1> by expanding along the last index.
+  const sources = indexCombinations(multival.grade, multival.dimension).map(
+    indices => indices.join(','),
+  );
+  const components = indexCombinations(
+    multival.grade + 1,
+    multival.dimension,
+  ).map(indices => {
+    let result = 0;
+    for (let k = 0; k < indices.length; ++k) {
+      const rest = indices.filter((_, i) => i !== k);
+      const sign = (indices.length - 1 - k) % 2 ? -1 : 1;
+      result += sign * weighted[sources.indexOf(rest.join(','))];
+    }
+    return result;
+  });
+  if (!components.length) {
+    return 0;
+  }
+  return rms(components);
+}